@@ -0,0 +1,36 @@
+import { Err } from '../result'
+import { AbortedError } from '../aborted-error'
+
+export const abortedErr = <T, E>(signal: AbortSignal): Err<T, E> =>
+  new Err<T, E>((new AbortedError(signal.reason) as unknown) as E)
+
+/**
+ * Settles with `promise`, or with the value returned by `onAbort` as soon as
+ * `signal` fires. The listener is removed as soon as either of them settles.
+ */
+export const settleUnlessAborted = <A>(
+  promise: Promise<A>,
+  signal: AbortSignal,
+  onAbort: () => A,
+): Promise<A> => {
+  if (signal.aborted) {
+    return Promise.resolve(onAbort())
+  }
+
+  let listener = (): void => undefined
+  const aborted = new Promise<void>((resolve) => {
+    listener = () => resolve()
+    signal.addEventListener('abort', listener, { once: true })
+  }).then(onAbort)
+
+  return Promise.race([promise, aborted]).then(
+    (value) => {
+      signal.removeEventListener('abort', listener)
+      return value
+    },
+    (e) => {
+      signal.removeEventListener('abort', listener)
+      throw e
+    },
+  )
+}
@@ -0,0 +1,40 @@
+import { Err, Ok, Result } from '../result'
+import { ResultAsync } from '../result-async'
+
+// Registered symbols are shared by all the copies of neverthrow loaded in the
+// same process, unlike the classes themselves
+export const resultBrand = Symbol.for('neverthrow/Result')
+export const resultAsyncBrand = Symbol.for('neverthrow/ResultAsync')
+
+const brandOf = (x: unknown): unknown =>
+  typeof x === 'object' && x !== null
+    ? (x as Record<typeof resultBrand, unknown>)[resultBrand]
+    : undefined
+
+export const isBrandedResult = (x: unknown): x is Result<unknown, unknown> =>
+  brandOf(x) === 'Ok' || brandOf(x) === 'Err'
+
+export const isBrandedOk = (x: unknown): x is Ok<unknown, unknown> => brandOf(x) === 'Ok'
+
+export const isBrandedErr = (x: unknown): x is Err<unknown, unknown> => brandOf(x) === 'Err'
+
+export const isBrandedResultAsync = (x: unknown): x is ResultAsync<unknown, unknown> =>
+  typeof x === 'object' &&
+  x !== null &&
+  (x as Record<typeof resultAsyncBrand, unknown>)[resultAsyncBrand] === true
+
+// Turns a `Result` created by another copy of neverthrow into one of this
+// copy, so that it has all the methods of this version. Anything else is
+// returned untouched
+export const adoptResult = <A>(x: A): A => {
+  if (x instanceof Ok || x instanceof Err) {
+    return x
+  }
+  if (isBrandedOk(x)) {
+    return (new Ok(x.value) as unknown) as A
+  }
+  if (isBrandedErr(x)) {
+    return (new Err(x.error, x.callSite) as unknown) as A
+  }
+  return x
+}
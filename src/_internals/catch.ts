@@ -0,0 +1,30 @@
+import { CallSiteOptions } from './error'
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export type ErrorClass = new (...args: any[]) => unknown
+
+export interface CatchClassesOptions<C extends readonly ErrorClass[]> extends CallSiteOptions {
+  /**
+   * The classes of the errors to catch, anything else is rethrown
+   */
+  catch: C
+}
+
+export interface CatchGuardOptions<E> extends CallSiteOptions {
+  /**
+   * Decides which errors to catch, anything else is rethrown
+   */
+  catch: (e: unknown) => e is E
+}
+
+export type CatchOptions = CatchClassesOptions<readonly ErrorClass[]> | CatchGuardOptions<unknown>
+
+// Gets the union of the instances of the given error classes
+export type CaughtError<C extends readonly ErrorClass[]> = InstanceType<C[number]>
+
+export const isCaught = (e: unknown, options: CatchOptions): boolean => {
+  const { catch: caught } = options
+  return typeof caught === 'function'
+    ? caught(e)
+    : caught.some((errorClass) => e instanceof errorClass)
+}
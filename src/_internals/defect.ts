@@ -0,0 +1,50 @@
+import { Err, Result } from '../result'
+import { Defect } from '../defect'
+
+export type DefectHandler = (defect: Defect) => void
+
+let captureDefects = false
+let defectHandler: DefectHandler | undefined
+
+/**
+ * Enables or disables the capture of defects. Disabled by default.
+ *
+ * When enabled, what the callbacks of a `ResultAsync` throw is captured as a
+ * `Defect` and reported to `onDefect`, so that the `ResultAsync` never
+ * rejects. The defect is kept out of the error type: the steps chained after
+ * it are skipped, and `matchDefect`, or `match` and `matchTag` given a defect
+ * callback, handle it separately. Elsewhere, the `ResultAsync` resolves to an
+ * `Err` holding the `Defect`.
+ *
+ * @param enabled
+ * @param onDefect called with every captured defect
+ */
+export const setDefectCapture = (enabled: boolean, onDefect?: DefectHandler): void => {
+  captureDefects = enabled
+  defectHandler = onDefect
+}
+
+export const isDefectCaptureEnabled = (): boolean => captureDefects
+
+// Wraps what was thrown in a `Defect`, reporting it to the defect handler.
+// The defect travels along the chain as an `Err` holding it, see `asDefect`
+export const captureDefect = <T, E>(e: unknown): Err<T, E> => {
+  if (e instanceof Defect) {
+    return new Err((e as unknown) as E)
+  }
+
+  const defect = new Defect(e)
+  try {
+    defectHandler?.(defect)
+  } catch (_) {
+    // The handler must not turn the defect into a rejection
+  }
+  return new Err((defect as unknown) as E)
+}
+
+// Gets the result as an Err of any type when it holds a Defect, so that it
+// can skip the steps handling the errors
+export const asDefect = <T, E>(result: Result<T, E>): Err<never, never> | undefined =>
+  result.isErr() && result.error instanceof Defect
+    ? ((result as unknown) as Err<never, never>)
+    : undefined
@@ -0,0 +1,190 @@
+import { Result } from '../result'
+import { isBrandedErr, isBrandedOk, isBrandedResult } from './brand'
+
+export type Equality<A> = (a: A, b: A) => boolean
+
+export interface EqualsOptions<T, E> {
+  /**
+   * Compares the values of two `Ok`s. Defaults to a deep equality
+   */
+  value?: Equality<T>
+  /**
+   * Compares the errors of two `Err`s. Defaults to a deep equality
+   */
+  error?: Equality<E>
+}
+
+// The pairs of objects being compared, to stop at cycles
+type Comparing = Map<unknown, Set<unknown>>
+
+const isObject = (x: unknown): x is Record<string, unknown> => typeof x === 'object' && x !== null
+
+const deepEqualWith = (a: unknown, b: unknown, comparing: Comparing): boolean => {
+  if (Object.is(a, b)) {
+    return true
+  }
+  if (!isObject(a) || !isObject(b)) {
+    return false
+  }
+
+  if (comparing.get(a)?.has(b)) {
+    return true
+  }
+  comparing.set(a, (comparing.get(a) ?? new Set()).add(b))
+
+  const equal = (x: unknown, y: unknown): boolean => deepEqualWith(x, y, comparing)
+
+  if (isBrandedResult(a) || isBrandedResult(b)) {
+    if (isBrandedOk(a) && isBrandedOk(b)) {
+      return equal(a.value, b.value)
+    }
+    return isBrandedErr(a) && isBrandedErr(b) && equal(a.error, b.error)
+  }
+  if (Object.getPrototypeOf(a) !== Object.getPrototypeOf(b)) {
+    return false
+  }
+  if (a instanceof Date) {
+    return Object.is(a.getTime(), ((b as unknown) as Date).getTime())
+  }
+  if (a instanceof RegExp) {
+    const other = (b as unknown) as RegExp
+    return a.source === other.source && a.flags === other.flags
+  }
+  if (a instanceof Error) {
+    const other = (b as unknown) as Error & { cause?: unknown }
+    if (a.name !== other.name || a.message !== other.message) {
+      return false
+    }
+    if (!equal((a as Error & { cause?: unknown }).cause, other.cause)) {
+      return false
+    }
+  }
+  if (a instanceof Map) {
+    const other = (b as unknown) as Map<unknown, unknown>
+    if (a.size !== other.size) {
+      return false
+    }
+    for (const [key, value] of a) {
+      if (!other.has(key) || !equal(value, other.get(key))) {
+        return false
+      }
+    }
+    return true
+  }
+  if (a instanceof Set) {
+    const other = (b as unknown) as Set<unknown>
+    if (a.size !== other.size) {
+      return false
+    }
+    const unmatched = [...other].filter((item) => !a.has(item))
+    for (const item of a) {
+      if (other.has(item)) {
+        continue
+      }
+      const index = unmatched.findIndex((candidate) => equal(item, candidate))
+      if (index === -1) {
+        return false
+      }
+      unmatched.splice(index, 1)
+    }
+    return true
+  }
+  if (Array.isArray(a) && a.length !== ((b as unknown) as unknown[]).length) {
+    return false
+  }
+
+  const keys = Object.keys(a)
+  return (
+    keys.length === Object.keys(b).length &&
+    keys.every((key) => Object.prototype.hasOwnProperty.call(b, key) && equal(a[key], b[key]))
+  )
+}
+
+/**
+ * Compares two values structurally, recursing into arrays, plain objects,
+ * `Map`s, `Set`s and `Result`s. `Date`s are compared by time, `RegExp`s by
+ * source and flags and `Error`s by name, message, cause and own properties.
+ * Other objects are equal when they have the same prototype and own properties
+ */
+export const deepEqual = (a: unknown, b: unknown): boolean => deepEqualWith(a, b, new Map())
+
+export const equalsResult = <T, E>(
+  a: Result<T, E>,
+  b: Result<T, E>,
+  options: EqualsOptions<T, E> = {},
+): boolean => {
+  if (a.isOk() && b.isOk()) {
+    return (options.value ?? deepEqual)(a.value, b.value)
+  }
+  if (a.isErr() && b.isErr()) {
+    return (options.error ?? deepEqual)(a.error, b.error)
+  }
+  return false
+}
+
+// The name of the class of an object, since `deepEqual` tells apart the objects
+// of different prototypes. Empty for plain objects
+const className = (x: Record<string, unknown>): string => {
+  const proto = Object.getPrototypeOf(x)
+  if (proto === Object.prototype || proto === null) {
+    return ''
+  }
+  const name = (proto as { constructor?: { name?: unknown } }).constructor?.name
+  return typeof name === 'string' && name !== '' ? name : '?'
+}
+
+// Encodes a value into a string which is the same for all the values equal
+// according to `deepEqual`
+const hashWith = (x: unknown, visiting: Set<unknown>): string => {
+  if (typeof x === 'string') {
+    return JSON.stringify(x)
+  }
+  if (typeof x === 'number') {
+    return Object.is(x, -0) ? '-0' : String(x)
+  }
+  if (typeof x === 'bigint') {
+    return `${x}n`
+  }
+  if (typeof x === 'function' || typeof x === 'symbol') {
+    return `${typeof x}:${String(x)}`
+  }
+  if (!isObject(x)) {
+    return String(x)
+  }
+  if (visiting.has(x)) {
+    return '[Circular]'
+  }
+
+  visiting.add(x)
+  const hash = (y: unknown): string => hashWith(y, visiting)
+  const sorted = (items: string[]): string => items.sort().join(',')
+  let encoded: string
+  if (isBrandedOk(x)) {
+    encoded = `Ok(${hash(x.value)})`
+  } else if (isBrandedErr(x)) {
+    encoded = `Err(${hash(x.error)})`
+  } else if (x instanceof Date) {
+    encoded = `Date(${x.getTime()})`
+  } else if (x instanceof RegExp) {
+    encoded = `RegExp(${String(x)})`
+  } else if (x instanceof Map) {
+    encoded = `Map{${sorted([...x].map(([key, value]) => `${hash(key)}=>${hash(value)}`))}}`
+  } else if (x instanceof Set) {
+    encoded = `Set{${sorted([...x].map(hash))}}`
+  } else if (Array.isArray(x)) {
+    encoded = `[${x.map(hash).join(',')}]`
+  } else {
+    const fields = sorted(Object.keys(x).map((key) => `${JSON.stringify(key)}:${hash(x[key])}`))
+    encoded =
+      x instanceof Error
+        ? `${className(x)}:${x.name}(${JSON.stringify(x.message)},${hash(
+            (x as Error & { cause?: unknown }).cause,
+          )}){${fields}}`
+        : `${className(x)}{${fields}}`
+  }
+  visiting.delete(x)
+  return encoded
+}
+
+export const hashResult = <T, E>(result: Result<T, E>): string =>
+  hashWith(result, new Set<unknown>())
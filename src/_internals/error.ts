@@ -8,6 +8,46 @@ const defaultErrorConfig: ErrorConfig = {
   withStackTrace: false,
 }
 
+export interface CallSiteOptions {
+  captureCallSite?: boolean
+}
+
+let captureCallSites = false
+
+/**
+ * Enables or disables the capture of the call site of every `Err` created by
+ * `err`, `errAsync`, `fromThrowable` and `fromPromise`. Disabled by default.
+ *
+ * The call site is exposed as `Err.callSite` and included in the objects
+ * thrown by `_unsafeUnwrap`.
+ *
+ * @param enabled
+ */
+export const setCallSiteCapture = (enabled: boolean): void => {
+  captureCallSites = enabled
+}
+
+// Captures the stack frames of the caller of `above` when call site capture
+// is enabled, either globally or for this call only
+export const captureCallSite = (
+  options: CallSiteOptions | undefined,
+  // eslint-disable-next-line @typescript-eslint/ban-types
+  above: Function,
+): string | undefined => {
+  if (!(options?.captureCallSite ?? captureCallSites)) {
+    return undefined
+  }
+
+  const holder: { stack?: string } = {}
+  if (typeof Error.captureStackTrace === 'function') {
+    Error.captureStackTrace(holder, above)
+  } else {
+    holder.stack = new Error().stack
+  }
+
+  return holder.stack?.split('\n').slice(1).join('\n')
+}
+
 interface NeverThrowError<T, E> {
   data:
     | {
@@ -20,6 +60,7 @@ interface NeverThrowError<T, E> {
       }
   message: string
   stack: string | undefined
+  callSite?: string
 }
 
 // Custom error object
@@ -34,10 +75,12 @@ export const createNeverThrowError = <T, E>(
     : { type: 'Err', value: result.error }
 
   const maybeStack = config.withStackTrace ? new Error().stack : undefined
+  const callSite = result.isErr() ? result.callSite : undefined
 
   return {
     data,
     message,
     stack: maybeStack,
+    ...(callSite === undefined ? {} : { callSite }),
   }
 }
@@ -0,0 +1,188 @@
+import { Err, Ok } from '../result'
+import { ResultAsync } from '../result-async'
+import { describeCauses } from '../context-error'
+import { isBrandedErr, isBrandedOk, isBrandedResultAsync } from './brand'
+import { asDefect } from './defect'
+
+// The symbol used by `util.inspect` of Node.js, registered so that neverthrow
+// does not have to import `util`
+export const inspectCustom = Symbol.for('nodejs.util.inspect.custom')
+
+// The subset of the options passed by `util.inspect` to custom inspectors
+interface InspectOptions {
+  depth?: number | null
+  stylize: (text: string, styleType: string) => string
+}
+
+type Inspect = (value: unknown, options: InspectOptions) => string
+
+type Settlement =
+  | { state: 'fulfilled'; result: Ok<unknown, unknown> | Err<unknown, unknown> }
+  | { state: 'rejected' | 'defect'; reason: unknown }
+
+const settlements = new WeakMap<ResultAsync<unknown, unknown>, Settlement>()
+
+// Records how the promise of a `ResultAsync` settled, so that it can be
+// printed. Only done when the `ResultAsync` is awaited: a handler of its own
+// would mark the rejections of every `ResultAsync` as handled
+export const recordFulfillment = <T, E>(
+  owner: ResultAsync<T, E>,
+  result: Ok<T, E> | Err<T, E>,
+): void => {
+  const defect = asDefect(result)
+  settlements.set(
+    owner,
+    defect ? { state: 'defect', reason: defect.error } : { state: 'fulfilled', result },
+  )
+}
+
+export const recordRejection = <T, E>(owner: ResultAsync<T, E>, reason: unknown): void => {
+  settlements.set(owner, { state: 'rejected', reason })
+}
+
+// Describes a value on one line: strings are quoted, nested results are
+// described like `toString` does, `Map`s and `Set`s list their contents and
+// the other objects are shown like JSON. `seen` holds the objects being
+// described, to stop at cycles
+const stringify = (x: unknown, seen: Set<unknown> = new Set()): string => {
+  if (typeof x === 'string') {
+    return JSON.stringify(x)
+  }
+  if (typeof x === 'bigint') {
+    return `${x}n`
+  }
+  if (typeof x === 'function') {
+    return `[Function ${x.name || '(anonymous)'}]`
+  }
+  if (typeof x !== 'object' || x === null || x instanceof Error) {
+    return String(x)
+  }
+  if (seen.has(x)) {
+    return '[Circular]'
+  }
+
+  seen.add(x)
+  let described: string
+  if (isBrandedOk(x)) {
+    described = okToString(x, seen)
+  } else if (isBrandedErr(x)) {
+    described = errToString(x, seen)
+  } else if (isBrandedResultAsync(x)) {
+    described = resultAsyncToString(x)
+  } else if (x instanceof Map) {
+    const entries = [...x].map(
+      ([key, value]) => `${stringify(key, seen)} => ${stringify(value, seen)}`,
+    )
+    described = `Map {${entries.join(', ')}}`
+  } else if (x instanceof Set) {
+    described = `Set {${[...x].map((item) => stringify(item, seen)).join(', ')}}`
+  } else if (Array.isArray(x)) {
+    described = `[${x.map((item) => stringify(item, seen)).join(',')}]`
+  } else {
+    described = stringifyObject(x as Record<string, unknown>, seen)
+  }
+  seen.delete(x)
+  return described
+}
+
+const stringifyObject = (x: Record<string, unknown>, seen: Set<unknown>): string => {
+  if (typeof x.toJSON === 'function') {
+    try {
+      return stringify(x.toJSON(), seen)
+    } catch (_) {
+      return String(x)
+    }
+  }
+  const fields = Object.keys(x).map((key) => `${JSON.stringify(key)}:${stringify(x[key], seen)}`)
+  return `{${fields.join(',')}}`
+}
+
+const causesSuffix = (error: unknown): string =>
+  describeCauses(error)
+    .map((cause, index) => `\n    ${index}: ${cause}`)
+    .join('')
+
+export const okToString = (result: Ok<unknown, unknown>, seen?: Set<unknown>): string =>
+  `Ok(${stringify(result.value, seen)})`
+
+export const errToString = (result: Err<unknown, unknown>, seen?: Set<unknown>): string =>
+  `Err(${stringify(result.error, seen)})`
+
+export const resultAsyncToString = (resultAsync: ResultAsync<unknown, unknown>): string => {
+  const settlement = settlements.get(resultAsync)
+  if (!settlement) {
+    return 'ResultAsync(<pending>)'
+  }
+  return settlement.state === 'fulfilled'
+    ? `ResultAsync(${settlement.result.toString()})`
+    : `ResultAsync(<${settlement.state}> ${stringify(settlement.reason)})`
+}
+
+const nested = (options: InspectOptions): InspectOptions => ({
+  ...options,
+  depth: options.depth === null || options.depth === undefined ? options.depth : options.depth - 1,
+})
+
+const inspectValue = (x: unknown, options: InspectOptions, inspect?: Inspect): string =>
+  inspect ? inspect(x, nested(options)) : stringify(x)
+
+export function inspectOk(
+  this: Ok<unknown, unknown>,
+  depth: number,
+  options: InspectOptions,
+  inspect?: Inspect,
+): string {
+  const name = options.stylize('Ok', 'string')
+  if (depth < 0) {
+    return `[${name}]`
+  }
+  return `${name}(${inspectValue(this.value, options, inspect)})`
+}
+
+export function inspectErr(
+  this: Err<unknown, unknown>,
+  depth: number,
+  options: InspectOptions,
+  inspect?: Inspect,
+): string {
+  const name = options.stylize('Err', 'regexp')
+  if (depth < 0) {
+    return `[${name}]`
+  }
+
+  // Errors are printed without their stack, which would hide the causes
+  const error =
+    this.error instanceof Error
+      ? options.stylize(String(this.error), 'name')
+      : inspectValue(this.error, options, inspect)
+  const causes = causesSuffix(this.error)
+  return causes
+    ? `${name}(${error})\n  ${options.stylize('Caused by:', 'undefined')}${causes}`
+    : `${name}(${error})`
+}
+
+export function inspectResultAsync(
+  this: ResultAsync<unknown, unknown>,
+  depth: number,
+  options: InspectOptions,
+  inspect?: Inspect,
+): string {
+  if (depth < 0) {
+    return options.stylize('[ResultAsync]', 'special')
+  }
+
+  const settlement = settlements.get(this)
+  let content: string
+  if (!settlement) {
+    content = options.stylize('<pending>', 'special')
+  } else if (settlement.state === 'fulfilled') {
+    content = inspectValue(settlement.result, options, inspect)
+  } else {
+    content = `${options.stylize(`<${settlement.state}>`, 'special')} ${inspectValue(
+      settlement.reason,
+      options,
+      inspect,
+    )}`
+  }
+  return `ResultAsync { ${content} }`
+}
@@ -0,0 +1,145 @@
+import { DecodeError } from '../decode-error'
+import { Result, ok, err } from '../result'
+
+export interface SerializedError {
+  name: string
+  message: string
+  cause?: unknown
+  stack?: string
+  [property: string]: unknown
+}
+
+// Errors are encoded as `SerializedError`s, arrays and objects are encoded
+// item by item and other values are left as is
+export type Serialized<T> = T extends Error
+  ? SerializedError
+  : T extends (...args: never[]) => unknown
+  ? T
+  : T extends Record<PropertyKey, unknown> | ReadonlyArray<unknown>
+  ? { [K in keyof T]: Serialized<T[K]> }
+  : T
+
+export type SerializedResult<T, E> =
+  | { type: 'Ok'; value: Serialized<T> }
+  | { type: 'Err'; error: Serialized<E> }
+
+export interface ToJSONOptions {
+  includeStack?: boolean
+}
+
+export interface FromJSONDecoders<T, E> {
+  decodeValue?: (value: unknown) => Result<T, unknown>
+  decodeError?: (error: unknown) => Result<E, unknown>
+}
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> => {
+  if (typeof value !== 'object' || value === null) {
+    return false
+  }
+  const proto = Object.getPrototypeOf(value)
+  return proto === Object.prototype || proto === null
+}
+
+// Encodes the own properties of an object, leaving out those that refer back
+// to an object being encoded
+const serializeEntries = (
+  value: Record<string, unknown>,
+  options: ToJSONOptions,
+  seen: Set<unknown>,
+): Record<string, unknown> => {
+  const serialized: Record<string, unknown> = {}
+  for (const [key, property] of Object.entries(value)) {
+    if (!seen.has(property)) {
+      serialized[key] = serializeValue(property, options, seen)
+    }
+  }
+  return serialized
+}
+
+const serializeError = (e: Error, options: ToJSONOptions, seen: Set<unknown>): SerializedError => {
+  const serialized: SerializedError = {
+    ...serializeEntries((e as unknown) as Record<string, unknown>, options, seen),
+    name: e.name,
+    message: e.message,
+  }
+
+  const cause = (e as { cause?: unknown }).cause
+  if (cause !== undefined && !seen.has(cause)) {
+    serialized.cause = serializeValue(cause, options, seen)
+  } else {
+    delete serialized.cause
+  }
+
+  if (options.includeStack && e.stack !== undefined) {
+    serialized.stack = e.stack
+  }
+
+  return serialized
+}
+
+const serializeValue = <T>(
+  value: T,
+  options: ToJSONOptions,
+  seen: Set<unknown> = new Set(),
+): Serialized<T> => {
+  if (!(value instanceof Error) && !Array.isArray(value) && !isPlainObject(value)) {
+    return value as Serialized<T>
+  }
+
+  // `seen` holds the objects being encoded, so that cycles are cut instead of
+  // recursing forever
+  seen.add(value)
+  const serialized =
+    value instanceof Error
+      ? serializeError(value, options, seen)
+      : Array.isArray(value)
+      ? value.map((item) => (seen.has(item) ? undefined : serializeValue(item, options, seen)))
+      : serializeEntries(value as Record<string, unknown>, options, seen)
+  seen.delete(value)
+
+  return (serialized as unknown) as Serialized<T>
+}
+
+export const serializeResult = <T, E>(
+  result: Result<T, E>,
+  options: ToJSONOptions = {},
+): SerializedResult<T, E> =>
+  result.isOk()
+    ? { type: 'Ok', value: serializeValue(result.value, options) }
+    : { type: 'Err', error: serializeValue(result.error, options) }
+
+const decodeWith = <A>(
+  decode: ((input: unknown) => Result<A, unknown>) | undefined,
+  input: unknown,
+  path: string,
+): Result<A, DecodeError> =>
+  decode
+    ? decode(input).mapErr((cause) => new DecodeError(`Could not decode ${path}`, path, { cause }))
+    : ok(input as A)
+
+export const parseResult = <T, E>(
+  input: unknown,
+  decoders: FromJSONDecoders<T, E>,
+): Result<Result<T, E>, DecodeError> => {
+  let payload = input
+  if (typeof input === 'string') {
+    try {
+      payload = JSON.parse(input)
+    } catch (cause) {
+      return err(new DecodeError('Input is not valid JSON', '$', { cause }))
+    }
+  }
+
+  if (typeof payload !== 'object' || payload === null) {
+    return err(new DecodeError('Expected an object', '$'))
+  }
+
+  const { type, value, error } = payload as { type?: unknown; value?: unknown; error?: unknown }
+  if (type === 'Ok') {
+    return decodeWith(decoders.decodeValue, value, '$.value').map((t) => ok<T, E>(t))
+  }
+  if (type === 'Err') {
+    return decodeWith(decoders.decodeError, error, '$.error').map((e) => err<T, E>(e))
+  }
+  return err(new DecodeError('Expected "type" to be "Ok" or "Err"', '$.type'))
+}
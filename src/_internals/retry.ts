@@ -0,0 +1,109 @@
+import { Err, Ok, Result } from '../result'
+import { ResultAsync } from '../result-async'
+
+export type Backoff<E> =
+  | 'constant'
+  | 'linear'
+  | 'exponential'
+  | ((attempt: number, error: E) => number)
+
+export interface RetryOptions<E> {
+  /**
+   * The maximum number of attempts, including the first one
+   */
+  attempts: number
+  /**
+   * How the delay grows between attempts. Either a policy applied to
+   * `delayMs`, or a function computing the delay from the number of failed
+   * attempts so far. Defaults to `'exponential'`
+   */
+  backoff?: Backoff<E>
+  /**
+   * The base delay in milliseconds. Defaults to `100`
+   */
+  delayMs?: number
+  /**
+   * The upper bound of the delay in milliseconds
+   */
+  maxDelayMs?: number
+  /**
+   * Picks a random delay between zero and the computed delay
+   */
+  jitter?: boolean
+  /**
+   * Decides whether a failed attempt should be retried. All errors are
+   * retried by default
+   */
+  retryIf?: (error: E, attempt: number) => boolean
+  /**
+   * Called before waiting for the next attempt
+   */
+  onRetry?: (error: E, attempt: number, delayMs: number) => void
+  /**
+   * Fails with the errors of all attempts instead of the last one
+   */
+  collectErrors?: boolean
+  /**
+   * Waits for the given number of milliseconds. Defaults to `setTimeout`
+   */
+  sleep?: (ms: number) => PromiseLike<void>
+  /**
+   * Returns a number in `[0, 1)`, used for the jitter. Defaults to
+   * `Math.random`
+   */
+  random?: () => number
+}
+
+const defaultSleep = (ms: number): Promise<void> =>
+  new Promise((resolve) => setTimeout(resolve, ms))
+
+const computeDelay = <E>(options: RetryOptions<E>, attempt: number, error: E): number => {
+  const { backoff = 'exponential', delayMs = 100, maxDelayMs = Infinity } = options
+
+  let delay: number
+  if (typeof backoff === 'function') {
+    delay = backoff(attempt, error)
+  } else if (backoff === 'linear') {
+    delay = delayMs * attempt
+  } else if (backoff === 'exponential') {
+    delay = delayMs * 2 ** (attempt - 1)
+  } else {
+    delay = delayMs
+  }
+
+  delay = Math.min(delay, maxDelayMs)
+  return options.jitter ? delay * (options.random ?? Math.random)() : delay
+}
+
+/**
+ * Runs `operation` until it returns an `Ok`, it has been attempted
+ * `options.attempts` times, or `options.retryIf` rejects its error
+ */
+export const retryResultAsync = <T, E>(
+  operation: (attempt: number) => ResultAsync<T, E>,
+  options: RetryOptions<E>,
+): ResultAsync<T, E | E[]> =>
+  new ResultAsync(
+    (async (): Promise<Result<T, E | E[]>> => {
+      const { attempts, retryIf, onRetry, collectErrors, sleep = defaultSleep } = options
+      const errors: E[] = []
+
+      for (let attempt = 1; ; attempt++) {
+        const result = await operation(attempt)
+        if (result.isOk()) {
+          return new Ok(result.value)
+        }
+
+        errors.push(result.error)
+        if (attempt >= attempts || (retryIf && !retryIf(result.error, attempt))) {
+          return new Err(collectErrors ? errors : result.error, result.callSite)
+        }
+
+        const delay = computeDelay(options, attempt, result.error)
+        if (onRetry) {
+          onRetry(result.error, attempt, delay)
+        }
+        await sleep(delay)
+      }
+    })(),
+  )
@@ -0,0 +1,70 @@
+import { CallSiteOptions } from './error'
+import { AbortedError } from '../aborted-error'
+import { TimeoutError } from '../timeout-error'
+
+export interface TimeoutOptions<F> {
+  /**
+   * Creates the error to fail with, instead of a `TimeoutError`
+   */
+  onTimeout?: () => F
+  /**
+   * Aborted when the deadline passes, so that the underlying work can stop
+   */
+  abortController?: AbortController
+}
+
+export interface FromPromiseOptions extends CallSiteOptions {
+  /**
+   * Fails with a `TimeoutError` when the promise does not settle in time
+   */
+  timeoutMs?: number
+  /**
+   * Aborted when the deadline passes, so that the underlying work can stop
+   */
+  abortController?: AbortController
+  /**
+   * Fails with an `AbortedError` when the signal fires, and skips the
+   * `map` and `andThen` steps chained after it
+   */
+  signal?: AbortSignal
+}
+
+// Whether the option `K` may be set in `O`, as the `timeoutMs` of a
+// `FromPromiseOptions` may be
+type MaySet<O, K extends string> = K extends keyof O
+  ? [Exclude<O[K], undefined>] extends [never]
+    ? false
+    : true
+  : false
+
+// Gets the errors added by the given options of `fromPromise`
+export type FromPromiseErrors<O extends FromPromiseOptions> =
+  | (MaySet<O, 'timeoutMs'> extends true ? TimeoutError : never)
+  | (MaySet<O, 'signal'> extends true ? AbortedError : never)
+
+/**
+ * Settles with `promise`, or with the value returned by `onTimeout` when
+ * `promise` does not settle within `ms` milliseconds. The timer is cleared as
+ * soon as either of them settles.
+ */
+export const settleBefore = <A>(
+  promise: Promise<A>,
+  ms: number,
+  onTimeout: () => A,
+): Promise<A> => {
+  let timer: ReturnType<typeof setTimeout> | undefined
+  const deadline = new Promise<void>((resolve) => {
+    timer = setTimeout(resolve, ms)
+  }).then(onTimeout)
+
+  return Promise.race([promise, deadline]).then(
+    (value) => {
+      clearTimeout(timer)
+      return value
+    },
+    (e) => {
+      clearTimeout(timer)
+      throw e
+    },
+  )
+}
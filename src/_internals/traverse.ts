@@ -0,0 +1,150 @@
+import { Err, Ok, Result } from '../result'
+import { ResultAsync } from '../result-async'
+
+export interface TraverseOptions {
+  /**
+   * The maximum number of `ResultAsync`s running at the same time. Unbounded
+   * by default
+   */
+  concurrency?: number
+}
+
+/**
+ * Calls `f` on the items with at most `concurrency` calls pending at a time,
+ * collecting the values in the order of the items.
+ *
+ * In short-circuit mode, settles with the first `Err` as soon as it occurs and
+ * stops calling `f`. Otherwise calls `f` on all the items and collects the
+ * errors in the order of the items.
+ */
+export const traverseResultAsync = <A, T, E>(
+  items: readonly A[],
+  f: (item: A, index: number) => ResultAsync<T, E>,
+  options: TraverseOptions,
+  shortCircuit: boolean,
+): ResultAsync<T[], E | E[]> => {
+  const { concurrency = Infinity } = options
+  if (!(concurrency >= 1)) {
+    throw new RangeError(`concurrency must be at least 1, got ${concurrency}`)
+  }
+
+  return new ResultAsync(
+    new Promise<Result<T[], E | E[]>>((resolve, reject) => {
+      const values: T[] = new Array(items.length)
+      const errors: { index: number; error: E }[] = []
+      let next = 0
+      let pending = 0
+      let done = false
+
+      const settle = (): void => {
+        if (errors.length === 0) {
+          resolve(new Ok(values))
+        } else {
+          errors.sort((a, b) => a.index - b.index)
+          resolve(new Err(errors.map(({ error }) => error)))
+        }
+      }
+
+      const fail = (e: unknown): void => {
+        done = true
+        reject(e)
+      }
+
+      const schedule = (): void => {
+        while (!done && pending < concurrency && next < items.length) {
+          const index = next++
+          pending++
+          Promise.resolve()
+            .then(() => f(items[index], index))
+            .then((result) => {
+              pending--
+              if (done) {
+                return
+              }
+              if (result.isOk()) {
+                values[index] = result.value
+              } else if (shortCircuit) {
+                done = true
+                resolve(new Err(result.error, result.callSite))
+                return
+              } else {
+                errors.push({ index, error: result.error })
+              }
+              schedule()
+            }, fail)
+        }
+        if (!done && pending === 0 && next >= items.length) {
+          done = true
+          settle()
+        }
+      }
+
+      schedule()
+    }),
+  )
+}
+
+/**
+ * Calls `f` on the items one after another, stopping at the first `Err`
+ */
+export const traverseResultList = <A, T, E>(
+  items: Iterable<A>,
+  f: (item: A, index: number) => Result<T, E>,
+): Result<T[], E> => {
+  const values: T[] = []
+
+  let index = 0
+  for (const item of items) {
+    const result = f(item, index++)
+    if (result.isErr()) {
+      return new Err(result.error, result.callSite)
+    }
+    values.push(result.value)
+  }
+  return new Ok(values)
+}
+
+export const isAsyncIterable = <A>(
+  items: Iterable<A> | AsyncIterable<A>,
+): items is AsyncIterable<A> =>
+  typeof (items as Partial<AsyncIterable<A>>)[Symbol.asyncIterator] === 'function'
+
+/**
+ * Calls `f` on the items one after another, waiting for each `ResultAsync` to
+ * settle before moving to the next item and stopping at the first `Err`
+ */
+export const traverseResultAsyncSeq = <A, T, E>(
+  items: Iterable<A> | AsyncIterable<A>,
+  f: (item: A, index: number) => Result<T, E> | ResultAsync<T, E>,
+): ResultAsync<T[], E> =>
+  new ResultAsync(
+    (async (): Promise<Result<T[], E>> => {
+      const values: T[] = []
+
+      let index = 0
+      const step = async (item: A): Promise<Err<T[], E> | undefined> => {
+        const result = await f(item, index++)
+        if (result.isErr()) {
+          return new Err(result.error, result.callSite)
+        }
+        values.push(result.value)
+      }
+
+      if (isAsyncIterable(items)) {
+        for await (const item of items) {
+          const failure = await step(item)
+          if (failure) {
+            return failure
+          }
+        }
+      } else {
+        for (const item of items) {
+          const failure = await step(item)
+          if (failure) {
+            return failure
+          }
+        }
+      }
+      return new Ok(values)
+    })(),
+  )
@@ -1,5 +1,6 @@
-import { Result, ok, err } from '../result'
-import { ResultAsync } from '../result-async'
+import { Result, ok, err, none, Option, some } from '../result'
+import { OptionAsync, ResultAsync } from '../result-async'
+import { isAsyncIterable } from './traverse'
 
 // Given a list of Results, this extracts all the different `T` types from that list
 export type ExtractOkTypes<T extends readonly Result<unknown, unknown>[]> = {
@@ -46,17 +47,62 @@ export const combineResultList = <T, E>(
   return acc
 }
 
+export interface CombineOptions {
+  /**
+   * Aborted as soon as one of the inner results is an Err value, so that the
+   * work of the others can stop
+   */
+  abortController?: AbortController
+}
+
+// Settles with the first Err value as soon as it occurs, or with all the Ok
+// values once they have all settled
+const combineResultAsyncListUntilErr = <T, E, F>(
+  asyncResultList: readonly ResultAsync<T, E>[],
+  toError: (error: E, index: number) => F,
+  options: CombineOptions,
+): ResultAsync<readonly T[], F> =>
+  new ResultAsync(
+    new Promise<Result<T[], F>>((resolve, reject) => {
+      const values: T[] = new Array(asyncResultList.length)
+      let pending = asyncResultList.length
+      let failed = false
+
+      if (pending === 0) {
+        resolve(ok(values))
+      }
+      asyncResultList.forEach((asyncResult, index) => {
+        asyncResult.then((result) => {
+          if (failed) {
+            return
+          }
+          if (result.isErr()) {
+            failed = true
+            resolve(err(toError(result.error, index)))
+            options.abortController?.abort()
+            return
+          }
+          values[index] = result.value
+          pending--
+          if (pending === 0) {
+            resolve(ok(values))
+          }
+        }, reject)
+      })
+    }),
+  )
+
 /* This is the typesafe version of Promise.all
  *
  * Takes a list of ResultAsync<T, E> and success if all inner results are Ok values
- * or fails if one (or more) of the inner results are Err values
+ * or fails as soon as one of the inner results is an Err value, without waiting
+ * for the others
  */
 export const combineResultAsyncList = <T, E>(
   asyncResultList: readonly ResultAsync<T, E>[],
+  options: CombineOptions = {},
 ): ResultAsync<readonly T[], E> =>
-  ResultAsync.fromSafePromise(Promise.all(asyncResultList)).andThen(
-    combineResultList,
-  ) as ResultAsync<T[], E>
+  combineResultAsyncListUntilErr(asyncResultList, (error) => error, options)
 
 /**
  * Give a list of all the errors we find
@@ -85,3 +131,351 @@ export const combineResultAsyncListWithAllErrors = <T, E>(
   ResultAsync.fromSafePromise(Promise.all(asyncResultList)).andThen(
     combineResultListWithAllErrors,
   ) as ResultAsync<T[], E[]>
+
+// An error of a combined list, along with the index of the Result it comes from
+export interface IndexedError<E, I extends number = number> {
+  index: I
+  error: E
+}
+
+/**
+ * Short circuits on the FIRST Err value that we find, keeping its index
+ */
+export const combineResultListIndexed = <T, E>(
+  resultList: readonly Result<T, E>[],
+): Result<readonly T[], IndexedError<E>> => {
+  const values: T[] = []
+
+  for (let index = 0; index < resultList.length; index++) {
+    const result = resultList[index]
+    if (result.isErr()) {
+      return err({ index, error: result.error })
+    }
+    values.push(result.value)
+  }
+  return ok(values)
+}
+
+export const combineResultAsyncListIndexed = <T, E>(
+  asyncResultList: readonly ResultAsync<T, E>[],
+  options: CombineOptions = {},
+): ResultAsync<readonly T[], IndexedError<E>> =>
+  combineResultAsyncListUntilErr(asyncResultList, (error, index) => ({ index, error }), options)
+
+/**
+ * Give a list of all the errors we find, each with its index
+ */
+export const combineResultListWithAllErrorsIndexed = <T, E>(
+  resultList: readonly Result<T, E>[],
+): Result<readonly T[], IndexedError<E>[]> => {
+  const values: T[] = []
+  const errors: IndexedError<E>[] = []
+
+  resultList.forEach((result, index) => {
+    if (result.isErr()) {
+      errors.push({ index, error: result.error })
+    } else {
+      values.push(result.value)
+    }
+  })
+  return errors.length > 0 ? err(errors) : ok(values)
+}
+
+export const combineResultAsyncListWithAllErrorsIndexed = <T, E>(
+  asyncResultList: readonly ResultAsync<T, E>[],
+): ResultAsync<readonly T[], IndexedError<E>[]> =>
+  ResultAsync.fromSafePromise(Promise.all(asyncResultList)).andThen(
+    combineResultListWithAllErrorsIndexed,
+  ) as ResultAsync<T[], IndexedError<E>[]>
+
+/* This is the typesafe version of Promise.any
+ *
+ * Takes a list of ResultAsync<T, E> and succeeds with the first inner result
+ * that is an Ok value, or fails with the errors of all the inner results, in
+ * the order of the list, if they are all Err values
+ */
+export const anyResultAsyncList = <T, E>(
+  asyncResultList: readonly ResultAsync<T, E>[],
+): ResultAsync<T, E[]> =>
+  new ResultAsync(
+    new Promise<Result<T, E[]>>((resolve, reject) => {
+      const errors: E[] = new Array(asyncResultList.length)
+      let pending = asyncResultList.length
+
+      if (pending === 0) {
+        resolve(err(errors))
+      }
+      asyncResultList.forEach((asyncResult, index) => {
+        asyncResult.then((result) => {
+          if (result.isOk()) {
+            resolve(ok(result.value))
+            return
+          }
+          errors[index] = result.error
+          pending--
+          if (pending === 0) {
+            resolve(err(errors))
+          }
+        }, reject)
+      })
+    }),
+  )
+
+/* This is the typesafe version of Promise.race
+ *
+ * Takes a list of ResultAsync<T, E> and settles with the first inner result
+ * to settle, whether it is an Ok or an Err value
+ */
+export const raceResultAsyncList = <T, E>(
+  asyncResultList: readonly ResultAsync<T, E>[],
+): ResultAsync<T, E> => new ResultAsync(Promise.race(asyncResultList))
+
+/**
+ * Short circuits on the FIRST Err value that we find, in the order of the keys
+ */
+export const combineResultRecord = <T, E>(
+  resultRecord: Readonly<Record<string, Result<T, E>>>,
+): Result<Record<string, T>, E> => {
+  const values: Record<string, T> = {}
+
+  for (const key of Object.keys(resultRecord)) {
+    const result = resultRecord[key]
+    if (result.isErr()) {
+      return err(result.error)
+    }
+    values[key] = result.value
+  }
+  return ok(values)
+}
+
+/**
+ * Give a record of all the errors we find, under the key of their Result
+ */
+export const combineResultRecordWithAllErrors = <T, E>(
+  resultRecord: Readonly<Record<string, Result<T, E>>>,
+): Result<Record<string, T>, Partial<Record<string, E>>> => {
+  const values: Record<string, T> = {}
+  const errors: Partial<Record<string, E>> = {}
+  let failed = false
+
+  for (const key of Object.keys(resultRecord)) {
+    const result = resultRecord[key]
+    if (result.isErr()) {
+      errors[key] = result.error
+      failed = true
+    } else {
+      values[key] = result.value
+    }
+  }
+  return failed ? err(errors) : ok(values)
+}
+
+// Waits for all the ResultAsyncs of the record, keeping them under their key
+const settleResultAsyncRecord = <T, E>(
+  asyncResultRecord: Readonly<Record<string, ResultAsync<T, E>>>,
+): ResultAsync<Record<string, Result<T, E>>, never> => {
+  const keys = Object.keys(asyncResultRecord)
+
+  return ResultAsync.fromSafePromise(
+    Promise.all(keys.map((key) => asyncResultRecord[key])).then((results) => {
+      const resultRecord: Record<string, Result<T, E>> = {}
+      keys.forEach((key, index) => {
+        resultRecord[key] = results[index]
+      })
+      return resultRecord
+    }),
+  )
+}
+
+export const combineResultAsyncRecord = <T, E>(
+  asyncResultRecord: Readonly<Record<string, ResultAsync<T, E>>>,
+): ResultAsync<Record<string, T>, E> =>
+  settleResultAsyncRecord(asyncResultRecord).andThen(combineResultRecord)
+
+export const combineResultAsyncRecordWithAllErrors = <T, E>(
+  asyncResultRecord: Readonly<Record<string, ResultAsync<T, E>>>,
+): ResultAsync<Record<string, T>, Partial<Record<string, E>>> =>
+  settleResultAsyncRecord(asyncResultRecord).andThen(combineResultRecordWithAllErrors)
+
+export interface SettledResult<T, E> {
+  index: number
+  result: Result<T, E>
+}
+
+/**
+ * Splits the values of the Ok values from the errors of the Err values, both
+ * in the order of the list
+ */
+export const partitionResultList = <T, E>(resultList: readonly Result<T, E>[]): [T[], E[]] => {
+  const values: T[] = []
+  const errors: E[] = []
+
+  for (const result of resultList) {
+    if (result.isOk()) {
+      values.push(result.value)
+    } else {
+      errors.push(result.error)
+    }
+  }
+  return [values, errors]
+}
+
+/* This is the typesafe version of Promise.allSettled
+ *
+ * Takes a list of ResultAsync<T, E> and succeeds with every inner result,
+ * along with its index in the list
+ */
+export const settleResultAsyncList = <T, E>(
+  asyncResultList: readonly ResultAsync<T, E>[],
+): ResultAsync<SettledResult<T, E>[], never> =>
+  ResultAsync.fromSafePromise(
+    Promise.all(asyncResultList).then((results) =>
+      results.map((result, index) => ({ index, result })),
+    ),
+  )
+
+/**
+ * Keeps the values of the Ok values, in the order of the list
+ */
+export const collectOkList = <T, E>(resultList: readonly Result<T, E>[]): T[] =>
+  partitionResultList(resultList)[0]
+
+/**
+ * Keeps the errors of the Err values, in the order of the list
+ */
+export const collectErrList = <T, E>(resultList: readonly Result<T, E>[]): E[] =>
+  partitionResultList(resultList)[1]
+
+/**
+ * Finds the value of the first Ok value satisfying the predicate, if any
+ */
+export const findOkInList = <T, E>(
+  resultList: readonly Result<T, E>[],
+  predicate: (value: T) => boolean = () => true,
+): Option<T> => {
+  for (const result of resultList) {
+    if (result.isOk() && predicate(result.value)) {
+      return some(result.value)
+    }
+  }
+  return none()
+}
+
+/**
+ * Maps each item to a Result, keeping the values of the Ok values only
+ */
+export const filterMapList = <A, T, E>(
+  items: Iterable<A>,
+  f: (item: A, index: number) => Result<T, E>,
+): T[] => {
+  const values: T[] = []
+
+  let index = 0
+  for (const item of items) {
+    const result = f(item, index++)
+    if (result.isOk()) {
+      values.push(result.value)
+    }
+  }
+  return values
+}
+
+export type AsyncResultSource<T, E> = readonly ResultAsync<T, E>[] | AsyncIterable<Result<T, E>>
+
+// Yields the results of the source one after another, in the order of the
+// list for a list of ResultAsyncs
+async function* resultsOf<T, E>(source: AsyncResultSource<T, E>): AsyncGenerator<Result<T, E>> {
+  if (Array.isArray(source)) {
+    for (const asyncResult of source as readonly ResultAsync<T, E>[]) {
+      yield await asyncResult
+    }
+  } else {
+    for await (const result of source as AsyncIterable<Result<T, E>>) {
+      yield result
+    }
+  }
+}
+
+/**
+ * Keeps the values of the Ok values, in the order of the source
+ */
+export const collectOkAsync = <T, E>(source: AsyncResultSource<T, E>): ResultAsync<T[], never> =>
+  ResultAsync.fromSafePromise(
+    (async () => {
+      const values: T[] = []
+      for await (const result of resultsOf(source)) {
+        if (result.isOk()) {
+          values.push(result.value)
+        }
+      }
+      return values
+    })(),
+  )
+
+/**
+ * Keeps the errors of the Err values, in the order of the source
+ */
+export const collectErrAsync = <T, E>(source: AsyncResultSource<T, E>): ResultAsync<E[], never> =>
+  ResultAsync.fromSafePromise(
+    (async () => {
+      const errors: E[] = []
+      for await (const result of resultsOf(source)) {
+        if (result.isErr()) {
+          errors.push(result.error)
+        }
+      }
+      return errors
+    })(),
+  )
+
+/**
+ * Finds the value of the first Ok value satisfying the predicate, in the order
+ * of the source. Stops consuming an async iterable once it is found
+ */
+export const findOkAsync = <T, E>(
+  source: AsyncResultSource<T, E>,
+  predicate: (value: T) => boolean = () => true,
+): OptionAsync<T> =>
+  new OptionAsync(
+    (async (): Promise<Option<T>> => {
+      for await (const result of resultsOf(source)) {
+        if (result.isOk() && predicate(result.value)) {
+          return some(result.value)
+        }
+      }
+      return none()
+    })(),
+  )
+
+/**
+ * Maps each item to a Result or a ResultAsync one after another, keeping the
+ * values of the Ok values only
+ */
+export const filterMapAsync = <A, T, E>(
+  items: Iterable<A> | AsyncIterable<A>,
+  f: (item: A, index: number) => Result<T, E> | ResultAsync<T, E>,
+): ResultAsync<T[], never> =>
+  ResultAsync.fromSafePromise(
+    (async () => {
+      const values: T[] = []
+
+      let index = 0
+      const step = async (item: A): Promise<void> => {
+        const result = await f(item, index++)
+        if (result.isOk()) {
+          values.push(result.value)
+        }
+      }
+
+      if (isAsyncIterable(items)) {
+        for await (const item of items) {
+          await step(item)
+        }
+      } else {
+        for (const item of items) {
+          await step(item)
+        }
+      }
+      return values
+    })(),
+  )
@@ -0,0 +1,11 @@
+import { TaggedError } from './tagged-error'
+
+/**
+ * Produced when the `AbortSignal` given to a `ResultAsync` fires. The reason
+ * of the signal is kept as `cause`.
+ */
+export class AbortedError extends TaggedError('AbortedError') {
+  constructor(reason?: unknown) {
+    super('The operation was aborted', { cause: reason })
+  }
+}
@@ -0,0 +1,79 @@
+/**
+ * Wraps an error with a message describing what was being done when it
+ * occurred. The original error is kept as `cause`.
+ *
+ * Created by `Result.context` and `ResultAsync.context`.
+ */
+export class ContextError<E> extends Error {
+  readonly cause: E
+
+  constructor(message: string, cause: E) {
+    super(message)
+    this.name = 'ContextError'
+    this.cause = cause
+  }
+}
+
+export type ContextMessage<E> = string | ((e: E) => string)
+
+export const toContextError = <E>(message: ContextMessage<E>, e: E): ContextError<E> =>
+  new ContextError(typeof message === 'function' ? message(e) : message, e)
+
+const describe = (e: unknown): string => {
+  if (e instanceof ContextError) {
+    return e.message
+  }
+  if (e instanceof Error || typeof e !== 'object' || e === null) {
+    return String(e)
+  }
+  try {
+    return JSON.stringify(e)
+  } catch (_) {
+    return String(e)
+  }
+}
+
+const causeOf = (e: unknown): unknown =>
+  typeof e === 'object' && e !== null && 'cause' in e ? (e as { cause: unknown }).cause : undefined
+
+// Describes the chain of causes of an error, outermost first
+export const describeCauses = (e: unknown): string[] => {
+  const seen = new Set<unknown>([e])
+  const causes: string[] = []
+
+  let cause = causeOf(e)
+  while (cause !== undefined && !seen.has(cause)) {
+    seen.add(cause)
+    causes.push(describe(cause))
+    cause = causeOf(cause)
+  }
+  return causes
+}
+
+/**
+ * Formats an error along with its chain of causes, outermost first.
+ *
+ * @example
+ * ```
+ * loading the configuration
+ *
+ * Caused by:
+ *     0: reading /etc/app.json
+ *     1: Error: ECONNRESET
+ * ```
+ *
+ * @param e the error to format
+ */
+export const formatErrorChain = (e: unknown): string => {
+  const causes = describeCauses(e)
+  if (causes.length === 0) {
+    return describe(e)
+  }
+
+  return [
+    describe(e),
+    '',
+    'Caused by:',
+    ...causes.map((message, index) => `    ${index}: ${message}`),
+  ].join('\n')
+}
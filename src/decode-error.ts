@@ -0,0 +1,13 @@
+import { TaggedError, TaggedErrorOptions } from './tagged-error'
+
+/**
+ * Describes why an untrusted input could not be decoded.
+ *
+ * `path` points at the offending part of the input, as a JSON path such as
+ * `$.value`.
+ */
+export class DecodeError extends TaggedError('DecodeError') {
+  constructor(message: string, readonly path: string = '$', options?: TaggedErrorOptions) {
+    super(message, options)
+  }
+}
@@ -0,0 +1,207 @@
+import { err, ok, Result } from './result'
+import { DecodeError } from './decode-error'
+
+type Literal = string | number | boolean | null
+
+// Gets the type of the values produced by a decoder
+export type DecodedType<D> = D extends Decoder<infer T> ? T : never
+
+type DecoderShape = Record<string, Decoder<unknown>>
+
+// The keys of the shape whose decoder accepts `undefined`, which become
+// optional keys of the decoded object
+type OptionalKeys<S extends DecoderShape> = {
+  [K in keyof S]: undefined extends DecodedType<S[K]> ? K : never
+}[keyof S]
+
+// Gets the type of the objects produced by the decoders of the given shape
+export type DecodedObject<S extends DecoderShape> = {
+  [K in Exclude<keyof S, OptionalKeys<S>>]: DecodedType<S[K]>
+} &
+  { [K in OptionalKeys<S>]?: DecodedType<S[K]> } extends infer O
+  ? { [K in keyof O]: O[K] }
+  : never
+
+const describe = (input: unknown): string => {
+  if (input === null) {
+    return 'null'
+  }
+  if (Array.isArray(input)) {
+    return 'an array'
+  }
+  if (typeof input === 'object') {
+    return 'an object'
+  }
+  return ['string', 'number', 'boolean'].includes(typeof input)
+    ? `${typeof input} ${JSON.stringify(input)}`
+    : typeof input
+}
+
+const fieldPath = (path: string, key: string): string =>
+  /^[A-Za-z_$][\w$]*$/.test(key) ? `${path}.${key}` : `${path}[${JSON.stringify(key)}]`
+
+const isRecord = (input: unknown): input is Record<string, unknown> =>
+  typeof input === 'object' && input !== null && !Array.isArray(input)
+
+const flatten = <A>(lists: A[][]): A[] => ([] as A[]).concat(...lists)
+
+/**
+ * Turns an untrusted input into a value of type `T`, reporting every part of
+ * the input that does not fit along with its JSON path.
+ *
+ * Decoders are built from the primitives and combinators of the `Decoder`
+ * namespace, such as `Decoder.object({ name: Decoder.string })`.
+ */
+export class Decoder<T> {
+  constructor(private readonly run: (input: unknown, path: string) => Result<T, DecodeError[]>) {}
+
+  /**
+   * Decodes the given input, failing with a `DecodeError` for every part of
+   * the input that does not fit.
+   *
+   * @param input the untrusted input
+   * @param path the JSON path of the input, `$` by default
+   */
+  decode(input: unknown, path = '$'): Result<T, DecodeError[]> {
+    return this.run(input, path)
+  }
+
+  /**
+   * Transforms the decoded values.
+   *
+   * @param f the transformation, applied after a successful decoding
+   */
+  map<U>(f: (t: T) => U): Decoder<U> {
+    return new Decoder((input, path) => this.run(input, path).map(f))
+  }
+
+  /**
+   * Rejects the decoded values which do not satisfy the predicate.
+   *
+   * @param predicate decides whether a decoded value is valid
+   * @param message the message of the `DecodeError` of invalid values
+   */
+  refine<U extends T>(predicate: (t: T) => t is U, message: string): Decoder<U>
+  refine(predicate: (t: T) => boolean, message: string): Decoder<T>
+  refine(predicate: (t: T) => boolean, message: string): Decoder<T> {
+    return new Decoder((input, path) =>
+      this.run(input, path).andThen((value) =>
+        predicate(value) ? ok(value) : err([new DecodeError(message, path)]),
+      ),
+    )
+  }
+}
+
+// eslint-disable-next-line @typescript-eslint/no-namespace
+export namespace Decoder {
+  const primitive = <T>(type: string, article: string): Decoder<T> =>
+    new Decoder((input, path) =>
+      typeof input === type
+        ? ok(input as T)
+        : err([new DecodeError(`Expected ${article} ${type}, got ${describe(input)}`, path)]),
+    )
+
+  export const string: Decoder<string> = primitive('string', 'a')
+
+  export const number: Decoder<number> = primitive('number', 'a')
+
+  export const boolean: Decoder<boolean> = primitive('boolean', 'a')
+
+  /**
+   * Accepts the given value only.
+   *
+   * @param value the expected value
+   */
+  export function literal<L extends Literal>(value: L): Decoder<L> {
+    return new Decoder((input, path) =>
+      input === value
+        ? ok(value)
+        : err([new DecodeError(`Expected ${JSON.stringify(value)}, got ${describe(input)}`, path)]),
+    )
+  }
+
+  /**
+   * Accepts objects whose fields are accepted by the decoders of the shape,
+   * reporting the failures of all the fields. The fields of the input which
+   * are not part of the shape are left out of the decoded object, and so are
+   * the missing optional fields.
+   *
+   * @param shape the decoder of each field
+   */
+  export function object<S extends DecoderShape>(shape: S): Decoder<DecodedObject<S>> {
+    return new Decoder((input, path) => {
+      if (!isRecord(input)) {
+        return err([new DecodeError(`Expected an object, got ${describe(input)}`, path)])
+      }
+
+      const keys = Object.keys(shape).filter(
+        (key) => key in input || !shape[key].decode(undefined).isOk(),
+      )
+      return Result.combineWithAllErrors(
+        keys.map((key) => shape[key].decode(input[key], fieldPath(path, key))),
+      )
+        .map((values) => {
+          const decoded: Record<string, unknown> = {}
+          keys.forEach((key, index) => {
+            decoded[key] = values[index]
+          })
+          return decoded as DecodedObject<S>
+        })
+        .mapErr(flatten)
+    })
+  }
+
+  /**
+   * Accepts arrays whose items are all accepted by the given decoder,
+   * reporting the failures of all the items.
+   *
+   * @param item the decoder of the items
+   */
+  export function array<T>(item: Decoder<T>): Decoder<T[]> {
+    return new Decoder((input, path) => {
+      if (!Array.isArray(input)) {
+        return err([new DecodeError(`Expected an array, got ${describe(input)}`, path)])
+      }
+
+      return Result.combineWithAllErrors(
+        input.map((value, index) => item.decode(value, `${path}[${index}]`)),
+      )
+        .map((values) => [...values])
+        .mapErr(flatten)
+    })
+  }
+
+  /**
+   * Accepts the inputs accepted by any of the given decoders, trying them in
+   * order. Fails with the failures of all of them.
+   *
+   * @param decoders the alternatives
+   */
+  export function union<D extends [Decoder<unknown>, ...Decoder<unknown>[]]>(
+    ...decoders: D
+  ): Decoder<DecodedType<D[number]>> {
+    return new Decoder((input, path) => {
+      const errors: DecodeError[][] = []
+      for (const decoder of decoders) {
+        const result = decoder.decode(input, path)
+        if (result.isOk()) {
+          return ok(result.value as DecodedType<D[number]>)
+        }
+        errors.push(result.error)
+      }
+      return err(flatten(errors))
+    })
+  }
+
+  /**
+   * Accepts `undefined` along with the inputs accepted by the given decoder.
+   * Makes the field optional when used in `Decoder.object`.
+   *
+   * @param decoder the decoder of the defined inputs
+   */
+  export function optional<T>(decoder: Decoder<T>): Decoder<T | undefined> {
+    return new Decoder((input, path) =>
+      input === undefined ? ok(undefined) : decoder.decode(input, path),
+    )
+  }
+}
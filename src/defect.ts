@@ -0,0 +1,17 @@
+import { TaggedError } from './tagged-error'
+
+/**
+ * Holds what a callback threw inside a `ResultAsync` chain, when defect
+ * capture is enabled with `setDefectCapture`. The thrown value is kept as
+ * `cause`.
+ *
+ * Defects are not part of the error type of the `ResultAsync`: they skip all
+ * the steps chained after them, and are handled by `matchDefect` or by the
+ * defect callback of `match` and `matchTag`. Awaiting the `ResultAsync`
+ * resolves to an `Err` holding the `Defect`, which `instanceof` tells apart.
+ */
+export class Defect extends TaggedError('Defect') {
+  constructor(cause: unknown) {
+    super('A callback threw unexpectedly', { cause })
+  }
+}
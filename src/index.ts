@@ -1,4 +1,18 @@
-export { Result, ok, Ok, err, Err, fromThrowable, safeTry } from './result'
+export {
+  Result,
+  ok,
+  Ok,
+  err,
+  Err,
+  fromThrowable,
+  safeTry,
+  Option,
+  some,
+  Some,
+  none,
+  None,
+  TryResult,
+} from './result'
 export {
   ResultAsync,
   okAsync,
@@ -6,4 +20,31 @@ export {
   fromAsyncThrowable,
   fromPromise,
   fromSafePromise,
+  OptionAsync,
+  someAsync,
+  noneAsync,
 } from './result-async'
+export { TaggedError, Tagged, TaggedErrorConstructor, TaggedErrorOptions } from './tagged-error'
+export { ContextError, ContextMessage, formatErrorChain } from './context-error'
+export { CallSiteOptions, setCallSiteCapture } from './_internals/error'
+export { Defect } from './defect'
+export { DefectHandler, setDefectCapture } from './_internals/defect'
+export { CatchClassesOptions, CatchGuardOptions, CaughtError, ErrorClass } from './_internals/catch'
+export { DecodeError } from './decode-error'
+export { Decoder, DecodedObject, DecodedType } from './decoder'
+export { NonEmptyArray, Validation } from './validation'
+export {
+  FromJSONDecoders,
+  Serialized,
+  SerializedError,
+  SerializedResult,
+  ToJSONOptions,
+} from './_internals/json'
+export { SchemaError, SchemaIssue, StandardSchemaV1 } from './standard-schema'
+export { Backoff, RetryOptions } from './_internals/retry'
+export { TraverseOptions } from './_internals/traverse'
+export { Equality, EqualsOptions } from './_internals/equals'
+export { CombineOptions, IndexedError, SettledResult } from './_internals/utils'
+export { TimeoutError } from './timeout-error'
+export { AbortedError } from './aborted-error'
+export { FromPromiseOptions, TimeoutOptions } from './_internals/timeout'
@@ -7,23 +7,106 @@ import type {
   MembersToUnion,
 } from './result'
 
-import { Err, Ok, Result } from './'
+import { Err, None, Ok, Option, Result, Some } from './'
 import {
+  anyResultAsyncList,
+  AsyncResultSource,
+  collectErrAsync,
+  collectOkAsync,
   combineResultAsyncList,
+  combineResultAsyncListIndexed,
   combineResultAsyncListWithAllErrors,
+  combineResultAsyncListWithAllErrorsIndexed,
+  combineResultAsyncRecord,
+  combineResultAsyncRecordWithAllErrors,
+  CombineOptions,
   ExtractErrAsyncTypes,
   ExtractOkAsyncTypes,
+  filterMapAsync,
+  findOkAsync,
+  IndexedError,
   InferAsyncErrTypes,
   InferAsyncOkTypes,
   InferErrTypes,
   InferOkTypes,
+  raceResultAsyncList,
+  SettledResult,
+  settleResultAsyncList,
 } from './_internals/utils'
+import { abortedErr, settleUnlessAborted } from './_internals/abort'
+import {
+  CaughtError,
+  CatchClassesOptions,
+  CatchGuardOptions,
+  CatchOptions,
+  ErrorClass,
+  isCaught,
+} from './_internals/catch'
+import { isBrandedResultAsync, resultAsyncBrand } from './_internals/brand'
+import {
+  inspectCustom,
+  inspectResultAsync,
+  recordFulfillment,
+  recordRejection,
+  resultAsyncToString,
+} from './_internals/inspect'
+import { asDefect, captureDefect, isDefectCaptureEnabled } from './_internals/defect'
+import { CallSiteOptions, captureCallSite } from './_internals/error'
+import { retryResultAsync, RetryOptions } from './_internals/retry'
+import { traverseResultAsync, traverseResultAsyncSeq, TraverseOptions } from './_internals/traverse'
+import {
+  FromPromiseErrors,
+  FromPromiseOptions,
+  settleBefore,
+  TimeoutOptions,
+} from './_internals/timeout'
+import { AbortedError } from './aborted-error'
+import { ContextError, ContextMessage } from './context-error'
+import { Defect } from './defect'
+import { SchemaError, StandardSchemaV1, toSchemaError } from './standard-schema'
+import { TimeoutError } from './timeout-error'
+import {
+  ExcludeTagged,
+  ExtractTagged,
+  hasTag,
+  TagHandlers,
+  TagHandlersReturnTypes,
+  TagsOf,
+} from './tagged-error'
 
 export class ResultAsync<T, E> implements PromiseLike<Result<T, E>> {
   private _promise: Promise<Result<T, E>>
+  private _signal?: AbortSignal
 
   constructor(res: Promise<Result<T, E>>) {
-    this._promise = res
+    this._promise = isDefectCaptureEnabled() ? res.catch((e) => captureDefect<T, E>(e)) : res
+  }
+
+  /**
+   * Creates a `ResultAsync` whose `map` and `andThen` steps are skipped and
+   * fail with an `AbortedError` once `signal` fires. Kept private, so that
+   * only the `ResultAsync`s whose error type has an `AbortedError` are given
+   * a signal. The signal is not passed on by the steps replacing the error
+   * type, such as `mapErr` and `orElse`, since that type may no longer allow
+   * an `AbortedError`
+   */
+  private static withSignal<T, E>(
+    res: Promise<Result<T, E>>,
+    signal: AbortSignal | undefined,
+  ): ResultAsync<T, E> {
+    const resultAsync = new ResultAsync(res)
+    resultAsync._signal = signal
+    return resultAsync
+  }
+
+  /**
+   * Checks whether a value is a `ResultAsync`. Unlike `instanceof`, it
+   * recognizes the `ResultAsync`s created by any copy of neverthrow.
+   *
+   * @param x the value to check
+   */
+  static isResultAsync(x: unknown): x is ResultAsync<unknown, unknown> {
+    return isBrandedResultAsync(x)
   }
 
   static fromSafePromise<T, E = never>(promise: PromiseLike<T>): ResultAsync<T, E>
@@ -33,43 +116,284 @@ export class ResultAsync<T, E> implements PromiseLike<Result<T, E>> {
     return new ResultAsync(newPromise)
   }
 
-  static fromPromise<T, E>(promise: PromiseLike<T>, errorFn: (e: unknown) => E): ResultAsync<T, E>
-  static fromPromise<T, E>(promise: Promise<T>, errorFn: (e: unknown) => E): ResultAsync<T, E> {
-    const newPromise = promise
+  static fromPromise<T, E, O extends FromPromiseOptions = CallSiteOptions>(
+    promise: PromiseLike<T>,
+    errorFn: (e: unknown) => E,
+    options?: O,
+  ): ResultAsync<T, E | FromPromiseErrors<O>>
+  static fromPromise<
+    T,
+    C extends readonly ErrorClass[],
+    O extends FromPromiseOptions & CatchOptions = CatchClassesOptions<C>
+  >(
+    promise: PromiseLike<T>,
+    options: CatchClassesOptions<C> & O,
+  ): ResultAsync<T, CaughtError<C> | FromPromiseErrors<O>>
+  static fromPromise<T, E, O extends FromPromiseOptions & CatchOptions = CatchGuardOptions<E>>(
+    promise: PromiseLike<T>,
+    options: CatchGuardOptions<E> & O,
+  ): ResultAsync<T, E | FromPromiseErrors<O>>
+  static fromPromise<T, E>(
+    promise: Promise<T>,
+    errorFn: ((e: unknown) => E) | (CatchOptions & FromPromiseOptions),
+    options?: FromPromiseOptions,
+  ): ResultAsync<T, E | TimeoutError | AbortedError> {
+    const catchOptions = typeof errorFn === 'object' ? errorFn : undefined
+    options = catchOptions ?? options
+    const callSite = captureCallSite(options, ResultAsync.fromPromise)
+    const signal = options?.signal
+    let newPromise = promise
       .then((value: T) => new Ok<T, E>(value))
-      .catch((e) => new Err<T, E>(errorFn(e)))
+      .catch((e) => {
+        if (catchOptions && !isCaught(e, catchOptions)) {
+          throw e
+        }
+        return new Err<T, E>(typeof errorFn === 'function' ? errorFn(e) : (e as E), callSite)
+      })
 
-    return new ResultAsync(newPromise)
+    if (signal) {
+      newPromise = settleUnlessAborted(newPromise, signal, () => abortedErr<T, E>(signal))
+    }
+    if (options?.timeoutMs === undefined) {
+      return ResultAsync.withSignal(newPromise, signal)
+    }
+    return ResultAsync.withSignal<T, E>(newPromise, signal).timeout(options.timeoutMs, {
+      abortController: options.abortController,
+    })
+  }
+
+  /**
+   * Runs a cancellable asynchronous operation, handing it the given signal.
+   *
+   * Fails with an `AbortedError` as soon as the signal fires, without calling
+   * `fn` when it has already fired. The `map` and `andThen` steps chained
+   * after the returned `ResultAsync` are skipped once the signal has fired.
+   *
+   * @param fn the operation, expected to stop its work when the signal fires
+   * @param errorFn maps the rejections of `fn` to a known error
+   * @param signal the signal cancelling the operation
+   */
+  static fromAbortable<T, E>(
+    fn: (signal: AbortSignal) => PromiseLike<T>,
+    errorFn: (e: unknown) => E,
+    signal: AbortSignal,
+  ): ResultAsync<T, E | AbortedError> {
+    if (signal.aborted) {
+      return ResultAsync.withSignal(
+        Promise.resolve(abortedErr<T, E | AbortedError>(signal)),
+        signal,
+      )
+    }
+
+    const newPromise = Promise.resolve()
+      .then(() => fn(signal))
+      .then(
+        (value) => new Ok<T, E | AbortedError>(value),
+        (e) =>
+          signal.aborted
+            ? abortedErr<T, E | AbortedError>(signal)
+            : new Err<T, E | AbortedError>(errorFn(e)),
+      )
+
+    return ResultAsync.withSignal(
+      settleUnlessAborted(newPromise, signal, () => abortedErr<T, E | AbortedError>(signal)),
+      signal,
+    )
   }
 
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   static fromThrowable<A extends readonly any[], R, E>(
     fn: (...args: A) => Promise<R>,
     errorFn?: (err: unknown) => E,
+    options?: CallSiteOptions,
+  ): (...args: A) => ResultAsync<R, E>
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  static fromThrowable<A extends readonly any[], R, C extends readonly ErrorClass[]>(
+    fn: (...args: A) => Promise<R>,
+    options: CatchClassesOptions<C>,
+  ): (...args: A) => ResultAsync<R, CaughtError<C>>
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  static fromThrowable<A extends readonly any[], R, E>(
+    fn: (...args: A) => Promise<R>,
+    options: CatchGuardOptions<E>,
+  ): (...args: A) => ResultAsync<R, E>
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  static fromThrowable<A extends readonly any[], R, E>(
+    fn: (...args: A) => Promise<R>,
+    errorFn?: ((err: unknown) => E) | CatchOptions,
+    options?: CallSiteOptions,
   ): (...args: A) => ResultAsync<R, E> {
-    return (...args) => {
+    const catchOptions = typeof errorFn === 'object' ? errorFn : undefined
+    const wrapped = (...args: A): ResultAsync<R, E> => {
+      const callSite = captureCallSite(catchOptions ?? options, wrapped)
       return new ResultAsync(
         (async () => {
           try {
             return new Ok(await fn(...args))
           } catch (error) {
-            return new Err(errorFn ? errorFn(error) : error)
+            if (catchOptions && !isCaught(error, catchOptions)) {
+              throw error
+            }
+            return new Err(typeof errorFn === 'function' ? errorFn(error) : (error as E), callSite)
           }
         })(),
       )
     }
+    return wrapped
+  }
+
+  /**
+   * Runs `fn` immediately, returning a `ResultAsync` which succeeds with what
+   * it resolves to, or fails if it throws or rejects.
+   *
+   * @param fn the code to run, usually an async function
+   * @param errorFn when an error is thrown, this will wrap the error result if provided
+   */
+  static try<T, E = unknown>(
+    fn: () => T | PromiseLike<T>,
+    errorFn?: (e: unknown) => E,
+  ): ResultAsync<T, E> {
+    const callSite = captureCallSite(undefined, ResultAsync.try)
+    return new ResultAsync(
+      (async () => {
+        try {
+          return new Ok<T, E>(await fn())
+        } catch (e) {
+          return new Err<T, E>(errorFn ? errorFn(e) : (e as E), callSite)
+        }
+      })(),
+    )
+  }
+
+  /**
+   * Validates an input against a Standard Schema (zod, valibot, arktype, ...),
+   * supporting schemas with asynchronous refinements.
+   *
+   * @param schema a schema implementing the Standard Schema interface
+   * @param input the untrusted input to validate
+   */
+  static fromSchema<S extends StandardSchemaV1>(
+    schema: S,
+    input: unknown,
+  ): ResultAsync<StandardSchemaV1.InferOutput<S>, SchemaError> {
+    type Output = StandardSchemaV1.InferOutput<S>
+
+    return new ResultAsync(
+      Promise.resolve()
+        .then(() => schema['~standard'].validate(input))
+        .then((result) =>
+          result.issues
+            ? new Err<Output, SchemaError>(toSchemaError(result.issues))
+            : new Ok<Output, SchemaError>(result.value),
+        ),
+    )
+  }
+
+  /**
+   * Calls `operation` until it returns an `Ok`, waiting between attempts
+   * according to the backoff policy.
+   *
+   * Fails with the error of the last attempt, or with the errors of all
+   * attempts when `collectErrors` is set.
+   *
+   * @param operation creates the `ResultAsync` to attempt, given the number
+   * of the attempt starting at 1
+   * @param options the retry policy
+   */
+  static retry<T, E>(
+    operation: (attempt: number) => ResultAsync<T, E>,
+    options: RetryOptions<E> & { collectErrors: true },
+  ): ResultAsync<T, E[]>
+  static retry<T, E>(
+    operation: (attempt: number) => ResultAsync<T, E>,
+    options: RetryOptions<E> & { collectErrors?: false },
+  ): ResultAsync<T, E>
+  static retry<T, E>(
+    operation: (attempt: number) => ResultAsync<T, E>,
+    options: RetryOptions<E>,
+  ): ResultAsync<T, E | E[]>
+  static retry<T, E>(
+    operation: (attempt: number) => ResultAsync<T, E>,
+    options: RetryOptions<E>,
+  ): ResultAsync<T, E | E[]> {
+    return retryResultAsync(operation, options)
+  }
+
+  /**
+   * Maps each item to a `ResultAsync` and combines them, calling `f` lazily so
+   * that at most `concurrency` of them run at the same time.
+   *
+   * The values are kept in the order of the items. Fails with the first `Err`,
+   * after which `f` is no longer called.
+   *
+   * @param items the items to map
+   * @param f creates the `ResultAsync` of an item, given the item and its index
+   * @param options the `concurrency` limit, unbounded by default
+   * @throws a `RangeError` when `concurrency` is below 1, since it is a
+   * mistake of the caller rather than a failure of the items
+   */
+  static traverse<A, T, E>(
+    items: readonly A[],
+    f: (item: A, index: number) => ResultAsync<T, E>,
+    options: TraverseOptions = {},
+  ): ResultAsync<T[], E> {
+    return traverseResultAsync(items, f, options, true) as ResultAsync<T[], E>
   }
 
+  /**
+   * Like `ResultAsync.traverse`, but calls `f` on all the items and fails with
+   * the errors of all the `Err`s, in the order of the items.
+   *
+   * @param items the items to map
+   * @param f creates the `ResultAsync` of an item, given the item and its index
+   * @param options the `concurrency` limit, unbounded by default
+   * @throws a `RangeError` when `concurrency` is below 1, since it is a
+   * mistake of the caller rather than a failure of the items
+   */
+  static traverseWithAllErrors<A, T, E>(
+    items: readonly A[],
+    f: (item: A, index: number) => ResultAsync<T, E>,
+    options: TraverseOptions = {},
+  ): ResultAsync<T[], E[]> {
+    return traverseResultAsync(items, f, options, false) as ResultAsync<T[], E[]>
+  }
+
+  /**
+   * Maps each item to a `ResultAsync` and combines them, running them one
+   * after another and stopping at the first `Err`.
+   *
+   * @param items any iterable or async iterable, such as an array, a `Set`, a
+   * `Map` or a generator
+   * @param f creates the `Result` or `ResultAsync` of an item, given the item
+   * and its index
+   */
+  static traverseSeq<A, T, E>(
+    items: Iterable<A> | AsyncIterable<A>,
+    f: (item: A, index: number) => Result<T, E> | ResultAsync<T, E>,
+  ): ResultAsync<T[], E> {
+    return traverseResultAsyncSeq(items, f)
+  }
+
+  /**
+   * Combines a list of `ResultAsync`s into a `ResultAsync` holding the list of
+   * their values. Fails with the first `Err` as soon as it occurs, without
+   * waiting for the other `ResultAsync`s.
+   *
+   * @param asyncResultList the `ResultAsync`s to combine
+   * @param options set `abortController` to abort it on the first `Err`
+   */
   static combine<
     T extends readonly [ResultAsync<unknown, unknown>, ...ResultAsync<unknown, unknown>[]]
-  >(asyncResultList: T): CombineResultAsyncs<T>
+  >(asyncResultList: T, options?: CombineOptions): CombineResultAsyncs<T>
   static combine<T extends readonly ResultAsync<unknown, unknown>[]>(
     asyncResultList: T,
+    options?: CombineOptions,
   ): CombineResultAsyncs<T>
   static combine<T extends readonly ResultAsync<unknown, unknown>[]>(
     asyncResultList: T,
+    options?: CombineOptions,
   ): CombineResultAsyncs<T> {
-    return (combineResultAsyncList(asyncResultList) as unknown) as CombineResultAsyncs<T>
+    return (combineResultAsyncList(asyncResultList, options) as unknown) as CombineResultAsyncs<T>
   }
 
   static combineWithAllErrors<
@@ -86,39 +410,236 @@ export class ResultAsync<T, E> implements PromiseLike<Result<T, E>> {
     ) as CombineResultsWithAllErrorsArrayAsync<T>
   }
 
+  /**
+   * Like `ResultAsync.combine`, but fails with the index of the first `Err`
+   * along with its error.
+   *
+   * @param asyncResultList the `ResultAsync`s to combine
+   * @param options set `abortController` to abort it on the first `Err`
+   */
+  static combineIndexed<
+    T extends readonly [ResultAsync<unknown, unknown>, ...ResultAsync<unknown, unknown>[]]
+  >(asyncResultList: T, options?: CombineOptions): CombineResultAsyncsIndexed<T>
+  static combineIndexed<T extends readonly ResultAsync<unknown, unknown>[]>(
+    asyncResultList: T,
+    options?: CombineOptions,
+  ): CombineResultAsyncsIndexed<T>
+  static combineIndexed<T extends readonly ResultAsync<unknown, unknown>[]>(
+    asyncResultList: T,
+    options?: CombineOptions,
+  ): CombineResultAsyncsIndexed<T> {
+    return (combineResultAsyncListIndexed(
+      asyncResultList,
+      options,
+    ) as unknown) as CombineResultAsyncsIndexed<T>
+  }
+
+  /**
+   * Like `ResultAsync.combineWithAllErrors`, but fails with the index of each
+   * `Err` along with its error. For tuples, the type of each error is tied to
+   * its index.
+   *
+   * @param asyncResultList the `ResultAsync`s to combine
+   */
+  static combineWithAllErrorsIndexed<
+    T extends readonly [ResultAsync<unknown, unknown>, ...ResultAsync<unknown, unknown>[]]
+  >(asyncResultList: T): CombineResultsWithAllErrorsIndexedAsync<T>
+  static combineWithAllErrorsIndexed<T extends readonly ResultAsync<unknown, unknown>[]>(
+    asyncResultList: T,
+  ): CombineResultsWithAllErrorsIndexedAsync<T>
+  static combineWithAllErrorsIndexed<T extends readonly ResultAsync<unknown, unknown>[]>(
+    asyncResultList: T,
+  ): CombineResultsWithAllErrorsIndexedAsync<T> {
+    return (combineResultAsyncListWithAllErrorsIndexed(
+      asyncResultList,
+    ) as unknown) as CombineResultsWithAllErrorsIndexedAsync<T>
+  }
+
+  /**
+   * Combines a record of `ResultAsync`s, waiting for all of them concurrently,
+   * into a `ResultAsync` holding the record of their values, or the first
+   * `Err` in the order of the keys.
+   *
+   * @param asyncResultRecord the `ResultAsync`s to combine, keyed by field
+   */
+  static combineObject<R extends Record<string, ResultAsync<unknown, unknown>>>(
+    asyncResultRecord: R,
+  ): CombineResultAsyncRecord<R> {
+    return (combineResultAsyncRecord(asyncResultRecord) as unknown) as CombineResultAsyncRecord<R>
+  }
+
+  /**
+   * Like `ResultAsync.combineObject`, but fails with a record holding the
+   * errors of all the `Err`s, under the key of their `ResultAsync`.
+   *
+   * @param asyncResultRecord the `ResultAsync`s to combine, keyed by field
+   */
+  static combineObjectWithAllErrors<R extends Record<string, ResultAsync<unknown, unknown>>>(
+    asyncResultRecord: R,
+  ): CombineResultAsyncRecordWithAllErrors<R> {
+    return (combineResultAsyncRecordWithAllErrors(
+      asyncResultRecord,
+    ) as unknown) as CombineResultAsyncRecordWithAllErrors<R>
+  }
+
+  /**
+   * Waits for all the `ResultAsync`s and succeeds with every `Result`, along
+   * with its index in the list, mirroring `Promise.allSettled`.
+   *
+   * @param asyncResultList the `ResultAsync`s to wait for
+   */
+  static settle<R extends ResultAsync<unknown, unknown>>(
+    asyncResultList: readonly R[],
+  ): ResultAsync<SettledResult<InferAsyncOkTypes<R>, InferAsyncErrTypes<R>>[], never> {
+    return settleResultAsyncList(asyncResultList) as ResultAsync<
+      SettledResult<InferAsyncOkTypes<R>, InferAsyncErrTypes<R>>[],
+      never
+    >
+  }
+
+  /**
+   * Keeps the values of the `Ok`s, in the order of the list or of the async
+   * iterable.
+   *
+   * @param source the `ResultAsync`s, or an async iterable of `Result`s
+   */
+  static collectOks<R extends ResultAsync<unknown, unknown>>(
+    source: readonly R[],
+  ): ResultAsync<InferAsyncOkTypes<R>[], never>
+  static collectOks<T, E>(source: AsyncIterable<Result<T, E>>): ResultAsync<T[], never>
+  static collectOks<T, E>(source: AsyncResultSource<T, E>): ResultAsync<T[], never> {
+    return collectOkAsync(source)
+  }
+
+  /**
+   * Keeps the errors of the `Err`s, in the order of the list or of the async
+   * iterable.
+   *
+   * @param source the `ResultAsync`s, or an async iterable of `Result`s
+   */
+  static collectErrs<R extends ResultAsync<unknown, unknown>>(
+    source: readonly R[],
+  ): ResultAsync<InferAsyncErrTypes<R>[], never>
+  static collectErrs<T, E>(source: AsyncIterable<Result<T, E>>): ResultAsync<E[], never>
+  static collectErrs<T, E>(source: AsyncResultSource<T, E>): ResultAsync<E[], never> {
+    return collectErrAsync(source)
+  }
+
+  /**
+   * Finds the value of the first `Ok` in the order of the list or of the async
+   * iterable, among the ones satisfying the predicate when given. Stops
+   * consuming the async iterable once it is found.
+   *
+   * @param source the `ResultAsync`s, or an async iterable of `Result`s
+   * @param predicate decides whether the value of an `Ok` is the one searched
+   */
+  static findOk<R extends ResultAsync<unknown, unknown>>(
+    source: readonly R[],
+    predicate?: (value: InferAsyncOkTypes<R>) => boolean,
+  ): OptionAsync<InferAsyncOkTypes<R>>
+  static findOk<T, E>(
+    source: AsyncIterable<Result<T, E>>,
+    predicate?: (value: T) => boolean,
+  ): OptionAsync<T>
+  static findOk<T, E>(
+    source: AsyncResultSource<T, E>,
+    predicate?: (value: T) => boolean,
+  ): OptionAsync<T> {
+    return findOkAsync(source, predicate)
+  }
+
+  /**
+   * Maps each item to a `ResultAsync` one after another, keeping the values
+   * of the `Ok`s and dropping the `Err`s.
+   *
+   * @param items any iterable or async iterable, such as an array, a `Set`, a
+   * `Map` or a generator
+   * @param f creates the `Result` or `ResultAsync` of an item, given the item
+   * and its index
+   */
+  static filterMap<A, T, E>(
+    items: Iterable<A> | AsyncIterable<A>,
+    f: (item: A, index: number) => Result<T, E> | ResultAsync<T, E>,
+  ): ResultAsync<T[], never> {
+    return filterMapAsync(items, f)
+  }
+
+  /**
+   * Succeeds with the first `ResultAsync` to settle with an `Ok`, mirroring
+   * `Promise.any`. Fails with the errors of all the `ResultAsync`s, in the
+   * order of the list, when none of them succeeds.
+   *
+   * @param asyncResultList the `ResultAsync`s to wait for
+   */
+  static any<
+    T extends readonly [ResultAsync<unknown, unknown>, ...ResultAsync<unknown, unknown>[]]
+  >(asyncResultList: T): AnyResultAsyncs<T>
+  static any<T extends readonly ResultAsync<unknown, unknown>[]>(
+    asyncResultList: T,
+  ): AnyResultAsyncs<T>
+  static any<T extends readonly ResultAsync<unknown, unknown>[]>(
+    asyncResultList: T,
+  ): AnyResultAsyncs<T> {
+    return (anyResultAsyncList(asyncResultList) as unknown) as AnyResultAsyncs<T>
+  }
+
+  /**
+   * Settles with the first `ResultAsync` to settle, whether it is an `Ok` or
+   * an `Err`, mirroring `Promise.race`.
+   *
+   * @param asyncResultList the `ResultAsync`s to wait for. It must not be
+   * empty, since there would be nothing to settle with
+   */
+  static race<
+    T extends readonly [ResultAsync<unknown, unknown>, ...ResultAsync<unknown, unknown>[]]
+  >(asyncResultList: T): RaceResultAsyncs<T> {
+    return raceResultAsyncList(asyncResultList) as RaceResultAsyncs<T>
+  }
+
   map<A>(f: (t: T) => A | Promise<A>): ResultAsync<A, E> {
-    return new ResultAsync(
+    return ResultAsync.withSignal(
       this._promise.then(async (res: Result<T, E>) => {
         if (res.isErr()) {
-          return new Err<A, E>(res.error)
+          return new Err<A, E>(res.error, res.callSite)
+        }
+        if (this._signal?.aborted) {
+          return abortedErr<A, E>(this._signal)
         }
 
         return new Ok<A, E>(await f(res.value))
       }),
+      this._signal,
     )
   }
 
   andThrough<F>(f: (t: T) => Result<unknown, F> | ResultAsync<unknown, F>): ResultAsync<T, E | F> {
-    return new ResultAsync(
+    return ResultAsync.withSignal(
       this._promise.then(async (res: Result<T, E>) => {
         if (res.isErr()) {
-          return new Err<T, E>(res.error)
+          return new Err<T, E>(res.error, res.callSite)
+        }
+        if (this._signal?.aborted) {
+          return abortedErr<T, E>(this._signal)
         }
 
         const newRes = await f(res.value)
         if (newRes.isErr()) {
-          return new Err<T, F>(newRes.error)
+          return new Err<T, F>(newRes.error, newRes.callSite)
         }
         return new Ok<T, F>(res.value)
       }),
+      this._signal,
     )
   }
 
   andTee(f: (t: T) => unknown): ResultAsync<T, E> {
-    return new ResultAsync(
+    return ResultAsync.withSignal(
       this._promise.then(async (res: Result<T, E>) => {
         if (res.isErr()) {
-          return new Err<T, E>(res.error)
+          return new Err<T, E>(res.error, res.callSite)
+        }
+        if (this._signal?.aborted) {
+          return abortedErr<T, E>(this._signal)
         }
         try {
           await f(res.value)
@@ -127,22 +648,28 @@ export class ResultAsync<T, E> implements PromiseLike<Result<T, E>> {
         }
         return new Ok<T, E>(res.value)
       }),
+      this._signal,
     )
   }
 
   orTee(f: (t: E) => unknown): ResultAsync<T, E> {
-    return new ResultAsync(
+    return ResultAsync.withSignal(
       this._promise.then(async (res: Result<T, E>) => {
         if (res.isOk()) {
           return new Ok<T, E>(res.value)
         }
+        const defect = asDefect(res)
+        if (defect) {
+          return defect
+        }
         try {
           await f(res.error)
         } catch (e) {
           // Tee does not care about the error
         }
-        return new Err<T, E>(res.error)
+        return new Err<T, E>(res.error, res.callSite)
       }),
+      this._signal,
     )
   }
 
@@ -152,8 +679,12 @@ export class ResultAsync<T, E> implements PromiseLike<Result<T, E>> {
         if (res.isOk()) {
           return new Ok<T, U>(res.value)
         }
+        const defect = asDefect(res)
+        if (defect) {
+          return defect
+        }
 
-        return new Err<T, U>(await f(res.error))
+        return new Err<T, U>(await f(res.error), res.callSite)
       }),
     )
   }
@@ -167,15 +698,19 @@ export class ResultAsync<T, E> implements PromiseLike<Result<T, E>> {
   andThen<U, F>(f: (t: T) => Result<U, F> | ResultAsync<U, F>): ResultAsync<U, E | F>
   // eslint-disable-next-line @typescript-eslint/no-explicit-any, @typescript-eslint/explicit-module-boundary-types
   andThen(f: any): any {
-    return new ResultAsync(
+    return ResultAsync.withSignal(
       this._promise.then((res) => {
         if (res.isErr()) {
-          return new Err<never, E>(res.error)
+          return new Err<never, E>(res.error, res.callSite)
+        }
+        if (this._signal?.aborted) {
+          return abortedErr<never, E>(this._signal)
         }
 
         const newValue = f(res.value)
         return newValue instanceof ResultAsync ? newValue._promise : newValue
       }),
+      this._signal,
     )
   }
 
@@ -191,7 +726,7 @@ export class ResultAsync<T, E> implements PromiseLike<Result<T, E>> {
     return new ResultAsync(
       this._promise.then(async (res: Result<T, E>) => {
         if (res.isErr()) {
-          return f(res.error)
+          return asDefect(res) ?? f(res.error)
         }
 
         return new Ok<T, unknown>(res.value)
@@ -199,8 +734,128 @@ export class ResultAsync<T, E> implements PromiseLike<Result<T, E>> {
     )
   }
 
-  match<A, B = A>(ok: (t: T) => A, _err: (e: E) => B): Promise<A | B> {
-    return this._promise.then((res) => res.match(ok, _err))
+  context(message: ContextMessage<E>): ResultAsync<T, ContextError<E>> {
+    return new ResultAsync(this._promise.then((res) => asDefect(res) ?? res.context(message)))
+  }
+
+  withContext(f: (e: E) => string): ResultAsync<T, ContextError<E>> {
+    return this.context(f)
+  }
+
+  catchTag<Tag extends TagsOf<E>, R extends Result<unknown, unknown>>(
+    tag: Tag,
+    f: (e: ExtractTagged<E, Tag>) => R,
+  ): ResultAsync<InferOkTypes<R> | T, InferErrTypes<R> | ExcludeTagged<E, Tag>>
+  catchTag<Tag extends TagsOf<E>, R extends ResultAsync<unknown, unknown>>(
+    tag: Tag,
+    f: (e: ExtractTagged<E, Tag>) => R,
+  ): ResultAsync<InferAsyncOkTypes<R> | T, InferAsyncErrTypes<R> | ExcludeTagged<E, Tag>>
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any, @typescript-eslint/explicit-module-boundary-types
+  catchTag(tag: any, f: any): any {
+    return new ResultAsync(
+      this._promise.then(async (res: Result<T, E>) => {
+        if (res.isErr() && !asDefect(res) && hasTag(res.error, tag)) {
+          return f(res.error)
+        }
+
+        return res
+      }),
+    )
+  }
+
+  /**
+   * Handles the `Ok` case and every tag of the error type.
+   *
+   * @param ok called with the value of an `Ok`
+   * @param handlers called with the error of an `Err`, by tag
+   * @param defect called with the `Defect` captured when a callback of the
+   * chain threw while defect capture is enabled. Without it, the returned
+   * promise resolves to `undefined` in that case, since no handler applies
+   */
+  matchTag<A, H extends TagHandlers<E>, C = never>(
+    ok: (t: T) => A,
+    handlers: H,
+    defect?: (d: Defect) => C,
+  ): Promise<A | TagHandlersReturnTypes<H> | C> {
+    return this._promise.then((res) => {
+      const captured = asDefect(res)
+      if (captured) {
+        return defect?.((captured.error as unknown) as Defect) as C
+      }
+      return res.matchTag(ok, handlers)
+    })
+  }
+
+  /**
+   * Fails with a `TimeoutError` when the `ResultAsync` does not settle within
+   * `ms` milliseconds.
+   *
+   * @param ms the deadline in milliseconds
+   * @param onTimeout creates the error to fail with instead of a
+   * `TimeoutError`, or the options of the timeout
+   */
+  timeout<F = TimeoutError>(
+    ms: number,
+    onTimeout?: (() => F) | TimeoutOptions<F>,
+  ): ResultAsync<T, E | F> {
+    const options = typeof onTimeout === 'function' ? { onTimeout } : onTimeout ?? {}
+
+    return ResultAsync.withSignal<T, E | F>(
+      settleBefore<Result<T, E | F>>(this._promise, ms, () => {
+        options.abortController?.abort()
+        return new Err(
+          options.onTimeout ? options.onTimeout() : ((new TimeoutError(ms) as unknown) as F),
+        )
+      }),
+      this._signal,
+    )
+  }
+
+  ok(): OptionAsync<T> {
+    return new OptionAsync(this._promise.then((res) => res.ok()))
+  }
+
+  err(): OptionAsync<E> {
+    return new OptionAsync(this._promise.then((res) => res.err()))
+  }
+
+  /**
+   * Handles both the `Ok` and the `Err` cases.
+   *
+   * @param ok called with the value of an `Ok`
+   * @param _err called with the error of an `Err`, as well as with the
+   * `Defect` captured when a callback of the chain threw while defect capture
+   * is enabled, unless `defect` is given
+   * @param defect called with the captured `Defect`
+   */
+  match<A, B = A, C = B>(
+    ok: (t: T) => A,
+    _err: (e: E) => B,
+    defect?: (d: Defect) => C,
+  ): Promise<A | B | C> {
+    return this._promise.then((res) => {
+      const captured = defect && asDefect(res)
+      return captured ? defect((captured.error as unknown) as Defect) : res.match(ok, _err)
+    })
+  }
+
+  /**
+   * Like `match`, but requires handling the `Defect` captured when a callback
+   * of the chain threw while defect capture is enabled.
+   *
+   * @param ok called with the value of an `Ok`
+   * @param _err called with the error of an `Err`
+   * @param defect called with the captured `Defect`
+   */
+  matchDefect<A, B = A, C = B>(
+    ok: (t: T) => A,
+    _err: (e: E) => B,
+    defect: (d: Defect) => C,
+  ): Promise<A | B | C> {
+    return this._promise.then((res) => {
+      const captured = asDefect(res)
+      return captured ? defect((captured.error as unknown) as Defect) : res.match(ok, _err)
+    })
   }
 
   unwrapOr<A>(t: A): Promise<T | A> {
@@ -223,20 +878,43 @@ export class ResultAsync<T, E> implements PromiseLike<Result<T, E>> {
     return yield* await this._promise.then((res) => res.safeUnwrap())
   }
 
+  /**
+   * Describes the `ResultAsync` along with its result once it has been
+   * awaited, such as `ResultAsync(<pending>)` or `ResultAsync(Ok(1))`.
+   */
+  toString(): string {
+    return resultAsyncToString(this)
+  }
+
+  get [Symbol.toStringTag](): string {
+    return 'ResultAsync'
+  }
+
   // Makes ResultAsync implement PromiseLike<Result>
   then<A, B>(
     successCallback?: (res: Result<T, E>) => A | PromiseLike<A>,
     failureCallback?: (reason: unknown) => B | PromiseLike<B>,
   ): PromiseLike<A | B> {
-    return this._promise.then(successCallback, failureCallback)
+    return this._promise.then(
+      (res) => {
+        recordFulfillment(this, res)
+        return successCallback ? successCallback(res) : ((res as unknown) as A)
+      },
+      (reason) => {
+        recordRejection(this, reason)
+        if (failureCallback) {
+          return failureCallback(reason)
+        }
+        throw reason
+      },
+    )
   }
 
   async *[Symbol.asyncIterator](): AsyncGenerator<Err<never, E>, T> {
     const result = await this._promise
 
     if (result.isErr()) {
-      // @ts-expect-error -- This is structurally equivalent and safe
-      yield errAsync(result.error)
+      yield new Err(result.error, result.callSite)
     }
 
     // @ts-expect-error -- This is structurally equivalent and safe
@@ -244,16 +922,102 @@ export class ResultAsync<T, E> implements PromiseLike<Result<T, E>> {
   }
 }
 
+Object.defineProperty(ResultAsync.prototype, resultAsyncBrand, { value: true })
+Object.defineProperty(ResultAsync.prototype, inspectCustom, { value: inspectResultAsync })
+
 export function okAsync<T, E = never>(value: T): ResultAsync<T, E>
 export function okAsync<T extends void = void, E = never>(value: void): ResultAsync<void, E>
 export function okAsync<T, E = never>(value: T): ResultAsync<T, E> {
   return new ResultAsync(Promise.resolve(new Ok<T, E>(value)))
 }
 
-export function errAsync<T = never, E = unknown>(err: E): ResultAsync<T, E>
-export function errAsync<T = never, E extends void = void>(err: void): ResultAsync<T, void>
-export function errAsync<T = never, E = unknown>(err: E): ResultAsync<T, E> {
-  return new ResultAsync(Promise.resolve(new Err<T, E>(err)))
+export function errAsync<T = never, E = unknown>(
+  err: E,
+  options?: CallSiteOptions,
+): ResultAsync<T, E>
+export function errAsync<T = never, E extends void = void>(
+  err: void,
+  options?: CallSiteOptions,
+): ResultAsync<T, void>
+export function errAsync<T = never, E = unknown>(
+  err: E,
+  options?: CallSiteOptions,
+): ResultAsync<T, E> {
+  return new ResultAsync(Promise.resolve(new Err<T, E>(err, captureCallSite(options, errAsync))))
+}
+
+export class OptionAsync<T> implements PromiseLike<Option<T>> {
+  private _promise: Promise<Option<T>>
+
+  constructor(res: Promise<Option<T>>) {
+    this._promise = res
+  }
+
+  map<U>(f: (t: T) => U | Promise<U>): OptionAsync<U> {
+    return new OptionAsync(
+      this._promise.then(async (opt: Option<T>) => {
+        if (opt.isNone()) {
+          return new None<U>()
+        }
+
+        return new Some<U>(await f(opt.value))
+      }),
+    )
+  }
+
+  andThen<U>(f: (t: T) => Option<U> | OptionAsync<U>): OptionAsync<U> {
+    return new OptionAsync(
+      this._promise.then((opt) => {
+        if (opt.isNone()) {
+          return new None<U>()
+        }
+
+        const newValue = f(opt.value)
+        return newValue instanceof OptionAsync ? newValue._promise : newValue
+      }),
+    )
+  }
+
+  orElse<U>(f: () => Option<U> | OptionAsync<U>): OptionAsync<T | U> {
+    return new OptionAsync<T | U>(
+      this._promise.then((opt) => {
+        if (opt.isSome()) {
+          return new Some<T | U>(opt.value)
+        }
+
+        const newValue = f()
+        return newValue instanceof OptionAsync ? newValue._promise : newValue
+      }),
+    )
+  }
+
+  okOr<E>(e: E): ResultAsync<T, E> {
+    return new ResultAsync(this._promise.then((opt) => opt.okOr(e)))
+  }
+
+  match<A, B = A>(some: (t: T) => A, none: () => B): Promise<A | B> {
+    return this._promise.then((opt) => opt.match(some, none))
+  }
+
+  unwrapOr<A>(v: A): Promise<T | A> {
+    return this._promise.then((opt) => opt.unwrapOr(v))
+  }
+
+  // Makes OptionAsync implement PromiseLike<Option>
+  then<A, B>(
+    successCallback?: (opt: Option<T>) => A | PromiseLike<A>,
+    failureCallback?: (reason: unknown) => B | PromiseLike<B>,
+  ): PromiseLike<A | B> {
+    return this._promise.then(successCallback, failureCallback)
+  }
+}
+
+export function someAsync<T>(value: T): OptionAsync<T> {
+  return new OptionAsync(Promise.resolve(new Some(value)))
+}
+
+export function noneAsync<T = never>(): OptionAsync<T> {
+  return new OptionAsync(Promise.resolve(new None<T>()))
 }
 
 export const fromPromise = ResultAsync.fromPromise
@@ -275,6 +1039,71 @@ export type CombineResultsWithAllErrorsArrayAsync<
   ? TraverseWithAllErrorsAsync<UnwrapAsync<T>>
   : ResultAsync<ExtractOkAsyncTypes<T>, ExtractErrAsyncTypes<T>[number][]>
 
+// Collects the errors of the tuple of async results, each with its literal
+// index. Async results which cannot fail are left out.
+type CollectIndexedErrorsAsync<T, Collected extends unknown[] = []> = T extends readonly [
+  infer H,
+  ...infer Rest
+]
+  ?
+      | ([InferAsyncErrTypes<H>] extends [never]
+          ? never
+          : IndexedError<InferAsyncErrTypes<H>, Collected['length']>)
+      | CollectIndexedErrorsAsync<Rest, [...Collected, H]>
+  : never
+
+// The errors of the array of async results, each with its index. For tuples,
+// the type of each error is tied to its index.
+export type IndexedErrorsAsync<
+  T extends readonly ResultAsync<unknown, unknown>[]
+> = IsLiteralArray<T> extends 1
+  ? CollectIndexedErrorsAsync<T>
+  : IndexedError<InferAsyncErrTypes<T[number]>>
+
+// Combines the array of async results into one result with the first error and
+// its index.
+export type CombineResultAsyncsIndexed<
+  T extends readonly ResultAsync<unknown, unknown>[]
+> = CombineResultAsyncs<T> extends ResultAsync<infer Oks, unknown>
+  ? ResultAsync<Oks, IndexedErrorsAsync<T>>
+  : never
+
+// Combines the array of async results into one result with all errors and
+// their indexes.
+export type CombineResultsWithAllErrorsIndexedAsync<
+  T extends readonly ResultAsync<unknown, unknown>[]
+> = CombineResultAsyncs<T> extends ResultAsync<infer Oks, unknown>
+  ? ResultAsync<Oks, IndexedErrorsAsync<T>[]>
+  : never
+
+// Combines the record of async results into one result holding the record of
+// values.
+export type CombineResultAsyncRecord<
+  R extends Record<string, ResultAsync<unknown, unknown>>
+> = ResultAsync<{ [K in keyof R]: InferAsyncOkTypes<R[K]> }, InferAsyncErrTypes<R[keyof R]>>
+
+// Combines the record of async results into one result with a record of all
+// errors.
+export type CombineResultAsyncRecordWithAllErrors<
+  R extends Record<string, ResultAsync<unknown, unknown>>
+> = ResultAsync<
+  { [K in keyof R]: InferAsyncOkTypes<R[K]> },
+  Partial<{ [K in keyof R]: InferAsyncErrTypes<R[K]> }>
+>
+
+// Succeeds with the first Ok of the array of async results, or fails with the
+// errors of all of them, one per position.
+export type AnyResultAsyncs<T extends readonly ResultAsync<unknown, unknown>[]> = ResultAsync<
+  ExtractOkAsyncTypes<T>[number],
+  Writable<ExtractErrAsyncTypes<T>>
+>
+
+// Settles with the first of the array of async results to settle.
+export type RaceResultAsyncs<T extends readonly ResultAsync<unknown, unknown>[]> = ResultAsync<
+  ExtractOkAsyncTypes<T>[number],
+  ExtractErrAsyncTypes<T>[number]
+>
+
 // Unwraps the inner `Result` from a `ResultAsync` for all elements.
 type UnwrapAsync<T> = IsLiteralArray<T> extends 1
   ? Writable<T> extends [infer H, ...infer Rest]
@@ -1,37 +1,151 @@
-import { errAsync, ResultAsync } from './'
-import { createNeverThrowError, ErrorConfig } from './_internals/error'
+import { ResultAsync } from './'
 import {
+  adoptResult,
+  isBrandedErr,
+  isBrandedOk,
+  isBrandedResult,
+  resultBrand,
+} from './_internals/brand'
+import {
+  CaughtError,
+  CatchClassesOptions,
+  CatchGuardOptions,
+  CatchOptions,
+  ErrorClass,
+  isCaught,
+} from './_internals/catch'
+import {
+  CallSiteOptions,
+  captureCallSite,
+  createNeverThrowError,
+  ErrorConfig,
+} from './_internals/error'
+import {
+  collectErrList,
+  collectOkList,
   combineResultList,
+  combineResultListIndexed,
   combineResultListWithAllErrors,
+  combineResultListWithAllErrorsIndexed,
+  combineResultRecord,
+  combineResultRecordWithAllErrors,
   ExtractErrTypes,
   ExtractOkTypes,
+  filterMapList,
+  findOkInList,
+  IndexedError,
   InferAsyncErrTypes,
   InferErrTypes,
   InferOkTypes,
+  partitionResultList,
 } from './_internals/utils'
+import { ContextError, ContextMessage, toContextError } from './context-error'
+import { DecodeError } from './decode-error'
+import { SchemaError, StandardSchemaV1, toSchemaError } from './standard-schema'
+import {
+  FromJSONDecoders,
+  parseResult,
+  SerializedResult,
+  serializeResult,
+  ToJSONOptions,
+} from './_internals/json'
+import { traverseResultList } from './_internals/traverse'
+import { equalsResult, EqualsOptions, hashResult } from './_internals/equals'
+import { errToString, inspectCustom, inspectErr, inspectOk, okToString } from './_internals/inspect'
+import { Validation } from './validation'
+import {
+  ExcludeTagged,
+  ExtractTagged,
+  hasTag,
+  TagHandlers,
+  TagHandlersReturnTypes,
+  Tagged,
+  TagsOf,
+} from './tagged-error'
 
 // eslint-disable-next-line @typescript-eslint/no-namespace
-export namespace Result {
+namespace ResultNamespace {
+  /**
+   * Checks whether a value is a `Result`. Unlike `instanceof`, it recognizes
+   * the `Result`s created by any copy of neverthrow, such as the CommonJS and
+   * the ES module builds loaded side by side.
+   *
+   * @param x the value to check
+   */
+  export function isResult(x: unknown): x is Result<unknown, unknown> {
+    return isBrandedResult(x)
+  }
+
+  /**
+   * Checks whether a value is an `Ok`, created by any copy of neverthrow.
+   *
+   * @param x the value to check
+   */
+  export function isOk(x: unknown): x is Ok<unknown, unknown> {
+    return isBrandedOk(x)
+  }
+
+  /**
+   * Checks whether a value is an `Err`, created by any copy of neverthrow.
+   *
+   * @param x the value to check
+   */
+  export function isErr(x: unknown): x is Err<unknown, unknown> {
+    return isBrandedErr(x)
+  }
+
   /**
    * Wraps a function with a try catch, creating a new function with the same
    * arguments but returning `Ok` if successful, `Err` if the function throws
    *
+   * Instead of `errorFn`, the error classes to catch or a type guard can be
+   * given as `catch`, in which case any other error is rethrown.
+   *
    * @param fn function to wrap with ok on success or err on failure
    * @param errorFn when an error is thrown, this will wrap the error result if provided
+   * @param options set `captureCallSite` to record where the `Err` was created
    */
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   export function fromThrowable<Fn extends (...args: readonly any[]) => any, E>(
     fn: Fn,
     errorFn?: (e: unknown) => E,
+    options?: CallSiteOptions,
+  ): (...args: Parameters<Fn>) => Result<ReturnType<Fn>, E>
+  export function fromThrowable<
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    Fn extends (...args: readonly any[]) => any,
+    C extends readonly ErrorClass[]
+  >(
+    fn: Fn,
+    options: CatchClassesOptions<C>,
+  ): (...args: Parameters<Fn>) => Result<ReturnType<Fn>, CaughtError<C>>
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  export function fromThrowable<Fn extends (...args: readonly any[]) => any, E>(
+    fn: Fn,
+    options: CatchGuardOptions<E>,
+  ): (...args: Parameters<Fn>) => Result<ReturnType<Fn>, E>
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  export function fromThrowable<Fn extends (...args: readonly any[]) => any, E>(
+    fn: Fn,
+    errorFn?: ((e: unknown) => E) | CatchOptions,
+    options?: CallSiteOptions,
   ): (...args: Parameters<Fn>) => Result<ReturnType<Fn>, E> {
-    return (...args) => {
+    const catchOptions = typeof errorFn === 'object' ? errorFn : undefined
+    const wrapped = (...args: Parameters<Fn>): Result<ReturnType<Fn>, E> => {
       try {
         const result = fn(...args)
         return ok(result)
       } catch (e) {
-        return err(errorFn ? errorFn(e) : e)
+        if (catchOptions && !isCaught(e, catchOptions)) {
+          throw e
+        }
+        return new Err(
+          typeof errorFn === 'function' ? errorFn(e) : (e as E),
+          captureCallSite(catchOptions ?? options, wrapped),
+        )
       }
     }
+    return wrapped
   }
 
   export function combine<
@@ -57,6 +171,314 @@ export namespace Result {
   ): CombineResultsWithAllErrorsArray<T> {
     return combineResultListWithAllErrors(resultList) as CombineResultsWithAllErrorsArray<T>
   }
+
+  /**
+   * Like `Result.combine`, but fails with the index of the first `Err` along
+   * with its error.
+   *
+   * @param resultList the `Result`s to combine
+   */
+  export function combineIndexed<
+    T extends readonly [Result<unknown, unknown>, ...Result<unknown, unknown>[]]
+  >(resultList: T): CombineResultsIndexed<T>
+  export function combineIndexed<T extends readonly Result<unknown, unknown>[]>(
+    resultList: T,
+  ): CombineResultsIndexed<T>
+  export function combineIndexed<T extends readonly Result<unknown, unknown>[]>(
+    resultList: T,
+  ): CombineResultsIndexed<T> {
+    return combineResultListIndexed(resultList) as CombineResultsIndexed<T>
+  }
+
+  /**
+   * Like `Result.combineWithAllErrors`, but fails with the index of each `Err`
+   * along with its error. For tuples, the type of each error is tied to its
+   * index.
+   *
+   * @param resultList the `Result`s to combine
+   */
+  export function combineWithAllErrorsIndexed<
+    T extends readonly [Result<unknown, unknown>, ...Result<unknown, unknown>[]]
+  >(resultList: T): CombineResultsWithAllErrorsIndexed<T>
+  export function combineWithAllErrorsIndexed<T extends readonly Result<unknown, unknown>[]>(
+    resultList: T,
+  ): CombineResultsWithAllErrorsIndexed<T>
+  export function combineWithAllErrorsIndexed<T extends readonly Result<unknown, unknown>[]>(
+    resultList: T,
+  ): CombineResultsWithAllErrorsIndexed<T> {
+    return combineResultListWithAllErrorsIndexed(
+      resultList,
+    ) as CombineResultsWithAllErrorsIndexed<T>
+  }
+
+  /**
+   * Combines a record of `Result`s into a `Result` holding the record of their
+   * values, or the first `Err` in the order of the keys.
+   *
+   * @param resultRecord the `Result`s to combine, keyed by field
+   */
+  export function combineObject<R extends Record<string, Result<unknown, unknown>>>(
+    resultRecord: R,
+  ): CombineResultRecord<R> {
+    return combineResultRecord(resultRecord) as CombineResultRecord<R>
+  }
+
+  /**
+   * Like `Result.combineObject`, but fails with a record holding the errors of
+   * all the `Err`s, under the key of their `Result`.
+   *
+   * @param resultRecord the `Result`s to combine, keyed by field
+   */
+  export function combineObjectWithAllErrors<R extends Record<string, Result<unknown, unknown>>>(
+    resultRecord: R,
+  ): CombineResultRecordWithAllErrors<R> {
+    return combineResultRecordWithAllErrors(resultRecord) as CombineResultRecordWithAllErrors<R>
+  }
+
+  /**
+   * Starts validating a value with checks whose errors are accumulated,
+   * instead of stopping at the first one like `andThen` does.
+   *
+   * @example
+   * ```typescript
+   * Result.validate(form)
+   *   .check((f) => validateEmail(f.email))
+   *   .check((f) => validateAge(f.age))
+   *   .andCheck((f) => validateEmailNotTaken(f.email))
+   *   .result() // Result<Form, [EmailError | AgeError | TakenError, ...]>
+   * ```
+   *
+   * @param value the value to validate
+   */
+  export function validate<T>(value: T): Validation<T, never> {
+    return new Validation(value)
+  }
+
+  /**
+   * Splits a list of `Result`s into the values of its `Ok`s and the errors of
+   * its `Err`s, both in the order of the list.
+   *
+   * @param resultList the `Result`s to split
+   */
+  export function partition<R extends Result<unknown, unknown>>(
+    resultList: readonly R[],
+  ): [InferOkTypes<R>[], InferErrTypes<R>[]] {
+    return partitionResultList(resultList) as [InferOkTypes<R>[], InferErrTypes<R>[]]
+  }
+
+  /**
+   * Keeps the values of the `Ok`s of a list of `Result`s, in the order of the
+   * list.
+   *
+   * @param resultList the `Result`s to collect
+   */
+  export function collectOks<R extends Result<unknown, unknown>>(
+    resultList: readonly R[],
+  ): InferOkTypes<R>[] {
+    return collectOkList(resultList) as InferOkTypes<R>[]
+  }
+
+  /**
+   * Keeps the errors of the `Err`s of a list of `Result`s, in the order of the
+   * list.
+   *
+   * @param resultList the `Result`s to collect
+   */
+  export function collectErrs<R extends Result<unknown, unknown>>(
+    resultList: readonly R[],
+  ): InferErrTypes<R>[] {
+    return collectErrList(resultList) as InferErrTypes<R>[]
+  }
+
+  /**
+   * Finds the value of the first `Ok` of a list of `Result`s, among the ones
+   * satisfying the predicate when given.
+   *
+   * @param resultList the `Result`s to search
+   * @param predicate decides whether the value of an `Ok` is the one searched
+   */
+  export function findOk<R extends Result<unknown, unknown>>(
+    resultList: readonly R[],
+    predicate?: (value: InferOkTypes<R>) => boolean,
+  ): Option<InferOkTypes<R>> {
+    return findOkInList(
+      resultList as readonly Result<InferOkTypes<R>, InferErrTypes<R>>[],
+      predicate,
+    )
+  }
+
+  /**
+   * Maps each item to a `Result`, keeping the values of the `Ok`s and
+   * dropping the `Err`s.
+   *
+   * @param items any iterable, such as an array, a `Set`, a `Map` or a generator
+   * @param f creates the `Result` of an item, given the item and its index
+   */
+  export function filterMap<A, T, E>(
+    items: Iterable<A>,
+    f: (item: A, index: number) => Result<T, E>,
+  ): T[] {
+    return filterMapList(items, f)
+  }
+
+  /**
+   * Maps each item to a `Result` and combines them, calling `f` one item after
+   * another and stopping at the first `Err`.
+   *
+   * @param items any iterable, such as an array, a `Set`, a `Map` or a generator
+   * @param f creates the `Result` of an item, given the item and its index
+   */
+  export function traverse<A, T, E>(
+    items: Iterable<A>,
+    f: (item: A, index: number) => Result<T, E>,
+  ): Result<T[], E> {
+    return traverseResultList(items, f)
+  }
+
+  /**
+   * Compares two `Result`s: they are equal when both are `Ok`s holding equal
+   * values, or both are `Err`s holding equal errors.
+   *
+   * The default equality is structural. It recurses into arrays, plain
+   * objects, `Map`s, `Set`s and nested `Result`s, compares `Date`s by time,
+   * `RegExp`s by source and flags, `Error`s by name, message, cause and own
+   * properties and other objects by prototype and own properties.
+   *
+   * @param a the first `Result`
+   * @param b the second `Result`
+   * @param options the equalities of the values and of the errors, replacing
+   * the default one
+   */
+  export function equals<T, E>(
+    a: Result<T, E>,
+    b: Result<T, E>,
+    options?: EqualsOptions<T, E>,
+  ): boolean {
+    return equalsResult(a, b, options)
+  }
+
+  /**
+   * Computes a string which is the same for all the `Result`s equal according
+   * to the default equality of `Result.equals`, for use as a cache key.
+   *
+   * @param result the `Result` to hash
+   */
+  export function hash<T, E>(result: Result<T, E>): string {
+    return hashResult(result)
+  }
+
+  /**
+   * Encodes a `Result` into its serialized form, `{ type: 'Ok', value }` or
+   * `{ type: 'Err', error }`. `Error` instances are encoded as plain objects
+   * holding their name, message, cause and own properties.
+   *
+   * @param result the result to encode
+   * @param options set `includeStack` to also encode the stack of errors
+   */
+  export function toJSON<T, E>(
+    result: Result<T, E>,
+    options?: ToJSONOptions,
+  ): SerializedResult<T, E> {
+    return serializeResult(result, options)
+  }
+
+  /**
+   * Decodes a `Result` from its serialized form, or from the JSON text of it.
+   *
+   * Returns an `Err` containing a `DecodeError` when the input is malformed or
+   * when one of the decoders fails, otherwise an `Ok` containing the decoded
+   * `Result`.
+   *
+   * @param input the serialized result
+   * @param decoders validate the decoded value and error, both are passed
+   * through untouched when omitted
+   */
+  export function fromJSON<T = unknown, E = unknown>(
+    input: unknown,
+    decoders: FromJSONDecoders<T, E> = {},
+  ): Result<Result<T, E>, DecodeError> {
+    return parseResult(input, decoders)
+  }
+
+  /**
+   * Validates an input against a Standard Schema (zod, valibot, arktype, ...),
+   * returning `Ok` with the parsed output or `Err` with the reported issues.
+   *
+   * Throws a `TypeError` when the schema validates asynchronously, use
+   * `ResultAsync.fromSchema` for such schemas.
+   *
+   * @param schema a schema implementing the Standard Schema interface
+   * @param input the untrusted input to validate
+   */
+  export function fromSchema<S extends StandardSchemaV1>(
+    schema: S,
+    input: unknown,
+  ): Result<StandardSchemaV1.InferOutput<S>, SchemaError> {
+    const result = schema['~standard'].validate(input)
+    if (result instanceof Promise) {
+      throw new TypeError('Schema validation must be synchronous, use `ResultAsync.fromSchema`')
+    }
+
+    return result.issues ? err(toSchemaError(result.issues)) : ok(result.value)
+  }
+}
+
+const isPromiseLike = <T>(x: T | PromiseLike<T>): x is PromiseLike<T> =>
+  typeof (x as Partial<PromiseLike<T>>)?.then === 'function'
+
+// What `Result.try` returns for a function returning `R`: a `Result`, unless
+// `R` has promises, in which case it may also be a `ResultAsync`. `any` is
+// kept as a synchronous return type, like with the other overload
+export type TryResult<R, E> = 0 extends 1 & R
+  ? Result<R, E>
+  : [Extract<R, PromiseLike<unknown>>] extends [never]
+  ? Result<R, E>
+  :
+      | Result<Exclude<R, PromiseLike<unknown>>, E>
+      | ResultAsync<Awaited<Extract<R, PromiseLike<unknown>>>, E>
+
+/**
+ * Runs `fn` immediately, returning `Ok` with what it returns or `Err` if it
+ * throws. When `fn` returns a promise, returns a `ResultAsync` instead, which
+ * fails when the promise rejects.
+ *
+ * @example
+ * ```typescript
+ * Result.try(() => JSON.parse(text), toParseError) // Result<any, ParseError>
+ * Result.try(() => fetch(url)) // ResultAsync<Response, unknown>
+ * Result.try(() => cache.get(key) ?? fetch(url)) // Result<Response, unknown> | ResultAsync<Response, unknown>
+ * ```
+ *
+ * @param fn the code to run
+ * @param errorFn when an error is thrown, this will wrap the error result if provided
+ */
+function tryResult<T, E = unknown>(
+  fn: () => PromiseLike<T>,
+  errorFn?: (e: unknown) => E,
+): ResultAsync<T, E>
+function tryResult<R, E = unknown>(fn: () => R, errorFn?: (e: unknown) => E): TryResult<R, E>
+function tryResult<T, E>(
+  fn: () => T | PromiseLike<T>,
+  errorFn?: (e: unknown) => E,
+): Result<T, E> | ResultAsync<T, E> {
+  const callSite = captureCallSite(undefined, tryResult)
+  const toErr = (e: unknown): Err<T, E> => new Err(errorFn ? errorFn(e) : (e as E), callSite)
+
+  let value: T | PromiseLike<T>
+  try {
+    value = fn()
+  } catch (e) {
+    return toErr(e)
+  }
+  return isPromiseLike(value)
+    ? new ResultAsync(Promise.resolve(value).then((t) => new Ok<T, E>(t), toErr))
+    : new Ok(value)
+}
+
+// `try` is a reserved word, which cannot be exported from a namespace
+export const Result: typeof ResultNamespace & { try: typeof tryResult } = {
+  ...ResultNamespace,
+  try: tryResult,
 }
 
 export type Result<T, E> = Ok<T, E> | Err<T, E>
@@ -67,11 +489,17 @@ export function ok<T, E = never>(value: T): Ok<T, E> {
   return new Ok(value)
 }
 
-export function err<T = never, E extends string = string>(err: E): Err<T, E>
-export function err<T = never, E = unknown>(err: E): Err<T, E>
-export function err<T = never, E extends void = void>(err: void): Err<T, void>
-export function err<T = never, E = unknown>(err: E): Err<T, E> {
-  return new Err(err)
+export function err<T = never, E extends string = string>(
+  err: E,
+  options?: CallSiteOptions,
+): Err<T, E>
+export function err<T = never, E = unknown>(err: E, options?: CallSiteOptions): Err<T, E>
+export function err<T = never, E extends void = void>(
+  err: void,
+  options?: CallSiteOptions,
+): Err<T, void>
+export function err<T = never, E = unknown>(error: E, options?: CallSiteOptions): Err<T, E> {
+  return new Err(error, captureCallSite(options, err))
 }
 
 /**
@@ -119,16 +547,27 @@ export function safeTry<
   InferOkTypes<GeneratorReturnResult>,
   InferErrTypes<YieldErr> | InferErrTypes<GeneratorReturnResult>
 >
+
+/**
+ * Evaluates the given generator to an Option returned or a None yielded from
+ * it, whichever comes first.
+ *
+ * @param body - What is evaluated. In body, `yield* option` works as
+ * Rust's `option?` expression.
+ * @returns The first occurrence of either an yielded None or a returned Option.
+ */
+export function safeTry<T>(body: () => Generator<None<never>, Option<T>>): Option<T>
 export function safeTry<T, E>(
   body:
     | (() => Generator<Err<never, E>, Result<T, E>>)
-    | (() => AsyncGenerator<Err<never, E>, Result<T, E>>),
-): Result<T, E> | ResultAsync<T, E> {
+    | (() => AsyncGenerator<Err<never, E>, Result<T, E>>)
+    | (() => Generator<None<never>, Option<T>>),
+): Result<T, E> | ResultAsync<T, E> | Option<T> {
   const n = body().next()
   if (n instanceof Promise) {
-    return new ResultAsync(n.then((r) => r.value))
+    return new ResultAsync(n.then((r) => adoptResult(r.value)))
   }
-  return n.value
+  return adoptResult(n.value)
 }
 
 interface IResult<T, E> {
@@ -259,6 +698,18 @@ interface IResult<T, E> {
    */
   unwrapOr<A>(v: A): T | A
 
+  /**
+   * Converts a `Result<T, E>` into an `Option<T>`, mapping `Ok(v)` to
+   * `Some(v)` and discarding the error of an `Err`.
+   */
+  ok(): Option<T>
+
+  /**
+   * Converts a `Result<T, E>` into an `Option<E>`, mapping `Err(e)` to
+   * `Some(e)` and discarding the value of an `Ok`.
+   */
+  err(): Option<E>
+
   /**
    *
    * Given 2 functions (one for the `Ok` variant and one for the `Err` variant)
@@ -275,6 +726,70 @@ interface IResult<T, E> {
    */
   match<A, B = A>(ok: (t: T) => A, err: (e: E) => B): A | B
 
+  /**
+   * Encodes the `Result` into its serialized form. Called by `JSON.stringify`.
+   *
+   * See `Result.toJSON`.
+   */
+  toJSON(): SerializedResult<T, E>
+
+  /**
+   * Describes the `Result`, such as `Ok(1)` or `Err("not found")`. `Result`s
+   * are also pretty-printed by `util.inspect` and `console.log` in Node.js,
+   * along with the chain of causes of the error of an `Err`.
+   */
+  toString(): string
+
+  /**
+   * Compares the `Result` with another one, see `Result.equals`.
+   *
+   * @param other the `Result` to compare with
+   * @param options the equalities of the values and of the errors, both
+   * default to a deep equality
+   */
+  equals(other: Result<T, E>, options?: EqualsOptions<T, E>): boolean
+
+  /**
+   * Wraps an `Err` value in a `ContextError` carrying a message that
+   * describes what was being done, keeping the original error as its `cause`.
+   * `Ok` values are left untouched.
+   *
+   * @param message The message, or a function computing it from the error
+   */
+  context(message: ContextMessage<E>): Result<T, ContextError<E>>
+
+  /**
+   * Same as `context`, with the message computed from the error.
+   *
+   * @param f A function computing the message from the error
+   */
+  withContext(f: (e: E) => string): Result<T, ContextError<E>>
+
+  /**
+   * Handles the `Err` values whose error carries the given `_tag`, leaving
+   * `Ok` values and the other errors untouched. The handled member is
+   * removed from the error type.
+   *
+   * @param tag The `_tag` of the error to handle
+   * @param f A function to apply to the matching `Err` value
+   */
+  catchTag<Tag extends TagsOf<E>, R extends Result<unknown, unknown>>(
+    tag: Tag,
+    f: (e: ExtractTagged<E, Tag>) => R,
+  ): Result<InferOkTypes<R> | T, InferErrTypes<R> | ExcludeTagged<E, Tag>>
+
+  /**
+   * Like `match`, except that the `Err` variant is handled by the function
+   * keyed by the `_tag` of the error.
+   *
+   * Fails to compile unless there is a handler for every tag of the error
+   * union.
+   *
+   * @param ok
+   * @param handlers
+   */
+  matchTag<A, H extends TagHandlers<E>>(ok: (t: T) => A, handlers: H): A | TagHandlersReturnTypes<H>
+
   /**
    * @deprecated will be removed in 9.0.0.
    *
@@ -389,11 +904,57 @@ export class Ok<T, E> implements IResult<T, E> {
     return this.value
   }
 
+  ok(): Option<T> {
+    return some(this.value)
+  }
+
+  err(): Option<E> {
+    return none()
+  }
+
   // eslint-disable-next-line @typescript-eslint/no-unused-vars
   match<A, B = A>(ok: (t: T) => A, _err: (e: E) => B): A | B {
     return ok(this.value)
   }
 
+  toJSON(): SerializedResult<T, E> {
+    return serializeResult(this)
+  }
+
+  toString(): string {
+    return okToString(this)
+  }
+
+  equals(other: Result<T, E>, options?: EqualsOptions<T, E>): boolean {
+    return equalsResult(this, other, options)
+  }
+
+  get [Symbol.toStringTag](): string {
+    return 'Ok'
+  }
+
+  context(_message: ContextMessage<E>): Result<T, ContextError<E>> {
+    return ok(this.value)
+  }
+
+  withContext(_f: (e: E) => string): Result<T, ContextError<E>> {
+    return ok(this.value)
+  }
+
+  catchTag<Tag extends TagsOf<E>, R extends Result<unknown, unknown>>(
+    _tag: Tag,
+    _f: (e: ExtractTagged<E, Tag>) => R,
+  ): Result<InferOkTypes<R> | T, InferErrTypes<R> | ExcludeTagged<E, Tag>> {
+    return ok(this.value)
+  }
+
+  matchTag<A, H extends TagHandlers<E>>(
+    ok: (t: T) => A,
+    _handlers: H,
+  ): A | TagHandlersReturnTypes<H> {
+    return ok(this.value)
+  }
+
   safeUnwrap(): Generator<Err<never, E>, T> {
     const value = this.value
     /* eslint-disable-next-line require-yield */
@@ -416,8 +977,21 @@ export class Ok<T, E> implements IResult<T, E> {
   }
 }
 
+Object.defineProperty(Ok.prototype, resultBrand, { value: 'Ok' })
+Object.defineProperty(Ok.prototype, inspectCustom, { value: inspectOk })
+
 export class Err<T, E> implements IResult<T, E> {
-  constructor(readonly error: E) {}
+  /**
+   * The stack frames where this `Err` was created. Only recorded when call
+   * site capture is enabled, see `setCallSiteCapture`.
+   */
+  readonly callSite?: string
+
+  constructor(readonly error: E, callSite?: string) {
+    if (callSite !== undefined) {
+      Object.defineProperty(this, 'callSite', { value: callSite })
+    }
+  }
 
   isOk(): this is Ok<T, E> {
     return false
@@ -429,19 +1003,19 @@ export class Err<T, E> implements IResult<T, E> {
 
   // eslint-disable-next-line @typescript-eslint/no-unused-vars
   map<A>(_f: (t: T) => A): Result<A, E> {
-    return err(this.error)
+    return new Err(this.error, this.callSite)
   }
 
   mapErr<U>(f: (e: E) => U): Result<T, U> {
-    return err(f(this.error))
+    return new Err(f(this.error), this.callSite)
   }
 
   andThrough<F>(_f: (t: T) => Result<unknown, F>): Result<T, E | F> {
-    return err(this.error)
+    return new Err(this.error, this.callSite)
   }
 
   andTee(_f: (t: T) => unknown): Result<T, E> {
-    return err(this.error)
+    return new Err(this.error, this.callSite)
   }
 
   orTee(f: (t: E) => unknown): Result<T, E> {
@@ -450,7 +1024,7 @@ export class Err<T, E> implements IResult<T, E> {
     } catch (e) {
       // Tee doesn't care about the error
     }
-    return err<T, E>(this.error)
+    return new Err<T, E>(this.error, this.callSite)
   }
 
   andThen<R extends Result<unknown, unknown>>(
@@ -459,7 +1033,7 @@ export class Err<T, E> implements IResult<T, E> {
   andThen<U, F>(_f: (t: T) => Result<U, F>): Result<U, E | F>
   // eslint-disable-next-line @typescript-eslint/no-explicit-any, @typescript-eslint/explicit-module-boundary-types
   andThen(_f: any): any {
-    return err(this.error)
+    return new Err(this.error, this.callSite)
   }
 
   orElse<R extends Result<unknown, unknown>>(
@@ -473,30 +1047,80 @@ export class Err<T, E> implements IResult<T, E> {
 
   // eslint-disable-next-line @typescript-eslint/no-unused-vars
   asyncAndThen<U, F>(_f: (t: T) => ResultAsync<U, F>): ResultAsync<U, E | F> {
-    return errAsync<U, E>(this.error)
+    return new ResultAsync(Promise.resolve(new Err<U, E>(this.error, this.callSite)))
   }
 
   asyncAndThrough<F>(_f: (t: T) => ResultAsync<unknown, F>): ResultAsync<T, E | F> {
-    return errAsync<T, E>(this.error)
+    return new ResultAsync(Promise.resolve(new Err<T, E>(this.error, this.callSite)))
   }
 
   // eslint-disable-next-line @typescript-eslint/no-unused-vars
   asyncMap<U>(_f: (t: T) => Promise<U>): ResultAsync<U, E> {
-    return errAsync<U, E>(this.error)
+    return new ResultAsync(Promise.resolve(new Err<U, E>(this.error, this.callSite)))
   }
 
   unwrapOr<A>(v: A): T | A {
     return v
   }
 
+  ok(): Option<T> {
+    return none()
+  }
+
+  err(): Option<E> {
+    return some(this.error)
+  }
+
   match<A, B = A>(_ok: (t: T) => A, err: (e: E) => B): A | B {
     return err(this.error)
   }
 
+  toJSON(): SerializedResult<T, E> {
+    return serializeResult(this)
+  }
+
+  toString(): string {
+    return errToString(this)
+  }
+
+  equals(other: Result<T, E>, options?: EqualsOptions<T, E>): boolean {
+    return equalsResult(this, other, options)
+  }
+
+  get [Symbol.toStringTag](): string {
+    return 'Err'
+  }
+
+  context(message: ContextMessage<E>): Result<T, ContextError<E>> {
+    return new Err(toContextError(message, this.error), this.callSite)
+  }
+
+  withContext(f: (e: E) => string): Result<T, ContextError<E>> {
+    return this.context(f)
+  }
+
+  catchTag<Tag extends TagsOf<E>, R extends Result<unknown, unknown>>(
+    tag: Tag,
+    f: (e: ExtractTagged<E, Tag>) => R,
+  ): Result<InferOkTypes<R> | T, InferErrTypes<R> | ExcludeTagged<E, Tag>> {
+    if (hasTag(this.error, tag)) {
+      return f(this.error) as Result<InferOkTypes<R>, InferErrTypes<R>>
+    }
+    return new Err(this.error as ExcludeTagged<E, Tag>, this.callSite)
+  }
+
+  matchTag<A, H extends TagHandlers<E>>(
+    _ok: (t: T) => A,
+    handlers: H,
+  ): A | TagHandlersReturnTypes<H> {
+    const handler = handlers[((this.error as unknown) as Tagged)._tag as keyof H]
+    return ((handler as unknown) as (e: E) => TagHandlersReturnTypes<H>)(this.error)
+  }
+
   safeUnwrap(): Generator<Err<never, E>, T> {
-    const error = this.error
+    const { error, callSite } = this
     return (function* () {
-      yield err(error)
+      yield new Err<never, E>(error, callSite)
 
       throw new Error('Do not use this generator out of `safeTry`')
     })()
@@ -520,8 +1144,191 @@ export class Err<T, E> implements IResult<T, E> {
   }
 }
 
+Object.defineProperty(Err.prototype, resultBrand, { value: 'Err' })
+Object.defineProperty(Err.prototype, inspectCustom, { value: inspectErr })
+
 export const fromThrowable = Result.fromThrowable
 
+//#region Option
+
+// eslint-disable-next-line @typescript-eslint/no-namespace
+export namespace Option {
+  /**
+   * Creates an `Option` from a value that may be `null` or `undefined`.
+   *
+   * @param value the value to wrap
+   * @returns `Some` when the value is present, `None` otherwise
+   */
+  export function fromNullable<T>(value: T | null | undefined): Option<T> {
+    return value === null || value === undefined ? none<T>() : some(value)
+  }
+}
+
+export type Option<T> = Some<T> | None<T>
+
+export function some<T>(value: T): Some<T>
+export function some<T extends void = void>(value: void): Some<void>
+export function some<T>(value: T): Some<T> {
+  return new Some(value)
+}
+
+export function none<T = never>(): None<T> {
+  return new None()
+}
+
+interface IOption<T> {
+  /**
+   * Used to check if an `Option` is a `Some`
+   *
+   * @returns `true` if the option is a `Some` variant of Option
+   */
+  isSome(): this is Some<T>
+
+  /**
+   * Used to check if an `Option` is a `None`
+   *
+   * @returns `true` if the option is a `None` variant of Option
+   */
+  isNone(): this is None<T>
+
+  /**
+   * Maps an `Option<T>` to `Option<U>` by applying a function to a contained
+   * `Some` value, leaving a `None` untouched.
+   *
+   * @param f The function to apply to a `Some` value
+   */
+  map<U>(f: (t: T) => U): Option<U>
+
+  /**
+   * Similar to `map` Except you must return a new `Option`.
+   *
+   * @param f The function to apply to the current value
+   */
+  andThen<U>(f: (t: T) => Option<U>): Option<U>
+
+  /**
+   * Takes a `None` and maps it to an `Option<U>`, leaving `Some` values
+   * untouched.
+   *
+   * @param f A function producing the fallback `Option`
+   */
+  orElse<U>(f: () => Option<U>): Option<T | U>
+
+  /**
+   * Unwrap the `Some` value, or return the default if there is a `None`
+   *
+   * @param v the default value to return if there is a `None`
+   */
+  unwrapOr<A>(v: A): T | A
+
+  /**
+   * Given 2 functions (one for the `Some` variant and one for the `None`
+   * variant) execute the function that matches the `Option` variant.
+   *
+   * @param some
+   * @param none
+   */
+  match<A, B = A>(some: (t: T) => A, none: () => B): A | B
+
+  /**
+   * Converts an `Option<T>` into a `Result<T, E>`, mapping `Some(v)` to
+   * `Ok(v)` and `None` to `Err(e)`.
+   *
+   * @param e the error to use when there is a `None`
+   */
+  okOr<E>(e: E): Result<T, E>
+}
+
+export class Some<T> implements IOption<T> {
+  constructor(readonly value: T) {}
+
+  isSome(): this is Some<T> {
+    return true
+  }
+
+  isNone(): this is None<T> {
+    return !this.isSome()
+  }
+
+  map<U>(f: (t: T) => U): Option<U> {
+    return some(f(this.value))
+  }
+
+  andThen<U>(f: (t: T) => Option<U>): Option<U> {
+    return f(this.value)
+  }
+
+  orElse<U>(_f: () => Option<U>): Option<T | U> {
+    return some<T | U>(this.value)
+  }
+
+  unwrapOr<A>(_v: A): T | A {
+    return this.value
+  }
+
+  match<A, B = A>(some: (t: T) => A, _none: () => B): A | B {
+    return some(this.value)
+  }
+
+  okOr<E>(_e: E): Result<T, E> {
+    return ok(this.value)
+  }
+
+  // eslint-disable-next-line require-yield
+  *[Symbol.iterator](): Generator<None<never>, T> {
+    return this.value
+  }
+}
+
+export class None<T> implements IOption<T> {
+  // Without a member of its own, `Some` would be structurally assignable to
+  // `None` and `isNone` could not narrow an `Option`
+  protected readonly _none?: undefined
+
+  isSome(): this is Some<T> {
+    return false
+  }
+
+  isNone(): this is None<T> {
+    return !this.isSome()
+  }
+
+  map<U>(_f: (t: T) => U): Option<U> {
+    return none()
+  }
+
+  andThen<U>(_f: (t: T) => Option<U>): Option<U> {
+    return none()
+  }
+
+  orElse<U>(f: () => Option<U>): Option<T | U> {
+    return f()
+  }
+
+  unwrapOr<A>(v: A): T | A {
+    return v
+  }
+
+  match<A, B = A>(_some: (t: T) => A, none: () => B): A | B {
+    return none()
+  }
+
+  okOr<E>(e: E): Result<T, E> {
+    return err(e)
+  }
+
+  *[Symbol.iterator](): Generator<None<never>, T> {
+    // eslint-disable-next-line @typescript-eslint/no-this-alias
+    const self = this
+    // @ts-expect-error -- This is structurally equivalent and safe
+    yield self
+    // @ts-expect-error -- This is structurally equivalent and safe
+    return self
+  }
+}
+
+//#endregion
+
 //#region Combine - Types
 
 // This is a helper type to prevent infinite recursion in typing rules.
@@ -722,4 +1529,46 @@ export type CombineResultsWithAllErrorsArray<
   ? TraverseWithAllErrors<T>
   : Result<ExtractOkTypes<T>, ExtractErrTypes<T>[number][]>
 
+// Collects the errors of the tuple of results, each with its literal index.
+// Results which cannot fail are left out.
+type CollectIndexedErrors<T, Collected extends unknown[] = []> = T extends readonly [
+  infer H,
+  ...infer Rest
+]
+  ?
+      | ([InferErrTypes<H>] extends [never]
+          ? never
+          : IndexedError<InferErrTypes<H>, Collected['length']>)
+      | CollectIndexedErrors<Rest, [...Collected, H]>
+  : never
+
+// The errors of the array of results, each with its index. For tuples, the
+// type of each error is tied to its index.
+export type IndexedErrors<
+  T extends readonly Result<unknown, unknown>[]
+> = IsLiteralArray<T> extends 1 ? CollectIndexedErrors<T> : IndexedError<InferErrTypes<T[number]>>
+
+// Combines the array of results into one result with the first error and its
+// index.
+export type CombineResultsIndexed<
+  T extends readonly Result<unknown, unknown>[]
+> = CombineResults<T> extends Result<infer Oks, unknown> ? Result<Oks, IndexedErrors<T>> : never
+
+// Combines the array of results into one result with all errors and their
+// indexes.
+export type CombineResultsWithAllErrorsIndexed<
+  T extends readonly Result<unknown, unknown>[]
+> = CombineResults<T> extends Result<infer Oks, unknown> ? Result<Oks, IndexedErrors<T>[]> : never
+
+// Combines the record of results into one result holding the record of values.
+export type CombineResultRecord<R extends Record<string, Result<unknown, unknown>>> = Result<
+  { [K in keyof R]: InferOkTypes<R[K]> },
+  InferErrTypes<R[keyof R]>
+>
+
+// Combines the record of results into one result with a record of all errors.
+export type CombineResultRecordWithAllErrors<
+  R extends Record<string, Result<unknown, unknown>>
+> = Result<{ [K in keyof R]: InferOkTypes<R[K]> }, Partial<{ [K in keyof R]: InferErrTypes<R[K]> }>>
+
 //#endregion
@@ -0,0 +1,75 @@
+import { TaggedError } from './tagged-error'
+
+/**
+ * The Standard Schema interface, implemented by validation libraries such as
+ * zod, valibot and arktype. Copied from https://standardschema.dev so that
+ * neverthrow does not depend on any of them.
+ */
+export interface StandardSchemaV1<Input = unknown, Output = Input> {
+  readonly '~standard': StandardSchemaV1.Props<Input, Output>
+}
+
+// eslint-disable-next-line @typescript-eslint/no-namespace
+export declare namespace StandardSchemaV1 {
+  export interface Props<Input = unknown, Output = Input> {
+    readonly version: 1
+    readonly vendor: string
+    readonly validate: (value: unknown) => Result<Output> | Promise<Result<Output>>
+    readonly types?: Types<Input, Output> | undefined
+  }
+
+  export type Result<Output> = SuccessResult<Output> | FailureResult
+
+  export interface SuccessResult<Output> {
+    readonly value: Output
+    readonly issues?: undefined
+  }
+
+  export interface FailureResult {
+    readonly issues: ReadonlyArray<Issue>
+  }
+
+  export interface Issue {
+    readonly message: string
+    readonly path?: ReadonlyArray<PropertyKey | PathSegment> | undefined
+  }
+
+  export interface PathSegment {
+    readonly key: PropertyKey
+  }
+
+  export interface Types<Input = unknown, Output = Input> {
+    readonly input: Input
+    readonly output: Output
+  }
+
+  export type InferInput<Schema extends StandardSchemaV1> = NonNullable<
+    Schema['~standard']['types']
+  >['input']
+
+  export type InferOutput<Schema extends StandardSchemaV1> = NonNullable<
+    Schema['~standard']['types']
+  >['output']
+}
+
+export interface SchemaIssue {
+  message: string
+  path: PropertyKey[]
+}
+
+/**
+ * Holds the issues reported by a Standard Schema when validating an input.
+ */
+export class SchemaError extends TaggedError('SchemaError') {
+  constructor(readonly issues: SchemaIssue[]) {
+    super(issues.map((issue) => issue.message).join('\n'))
+  }
+}
+
+const toSchemaIssue = (issue: StandardSchemaV1.Issue): SchemaIssue => ({
+  message: issue.message,
+  path: (issue.path ?? []).map((segment) => (typeof segment === 'object' ? segment.key : segment)),
+})
+
+export const toSchemaError = (issues: ReadonlyArray<StandardSchemaV1.Issue>): SchemaError =>
+  new SchemaError(issues.map(toSchemaIssue))
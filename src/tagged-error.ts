@@ -0,0 +1,68 @@
+export interface Tagged<Tag extends string = string> {
+  readonly _tag: Tag
+}
+
+// Given a union of errors, this extracts the tags of all its tagged members
+export type TagsOf<E> = E extends Tagged<infer Tag> ? Tag : never
+
+// Given a union of errors, this extracts the member(s) carrying the given tag
+export type ExtractTagged<E, Tag extends string> = Extract<E, Tagged<Tag>>
+
+// Given a union of errors, this removes the member(s) carrying the given tag
+export type ExcludeTagged<E, Tag extends string> = Exclude<E, Tagged<Tag>>
+
+// An object holding one handler per tag of the error union. Resolves to
+// `never` when some member of the union is not tagged, as it could never be
+// handled.
+export type TagHandlers<E> = [E] extends [Tagged]
+  ? { [Tag in TagsOf<E>]: (e: ExtractTagged<E, Tag>) => unknown }
+  : never
+
+// Gets the union of the return types of the given tag handlers
+export type TagHandlersReturnTypes<H> = {
+  [Tag in keyof H]: H[Tag] extends (...args: never[]) => infer R ? R : never
+}[keyof H]
+
+export interface TaggedErrorOptions {
+  cause?: unknown
+}
+
+export type TaggedErrorConstructor<Tag extends string> = new (
+  message?: string,
+  options?: TaggedErrorOptions,
+) => Error & Tagged<Tag> & { readonly cause?: unknown }
+
+/**
+ * Creates an `Error` subclass whose instances carry the given literal `_tag`.
+ *
+ * Meant to be extended, so that a union of such errors can be handled tag by
+ * tag with `catchTag` and `matchTag`.
+ *
+ * @example
+ * ```typescript
+ * class NotFound extends TaggedError('NotFound') {
+ *   constructor(readonly id: string) {
+ *     super(`${id} was not found`)
+ *   }
+ * }
+ * ```
+ *
+ * @param tag the literal tag shared by all instances of the class
+ */
+export const TaggedError = <Tag extends string>(tag: Tag): TaggedErrorConstructor<Tag> =>
+  class extends Error {
+    readonly _tag: Tag = tag
+    readonly cause?: unknown
+
+    constructor(message?: string, options?: TaggedErrorOptions) {
+      super(message)
+      this.name = tag
+
+      if (options && 'cause' in options) {
+        this.cause = options.cause
+      }
+    }
+  }
+
+export const hasTag = <E, Tag extends string>(e: E, tag: Tag): e is ExtractTagged<E, Tag> =>
+  typeof e === 'object' && e !== null && (e as Partial<Tagged>)._tag === tag
@@ -0,0 +1,10 @@
+import { TaggedError } from './tagged-error'
+
+/**
+ * Produced when a `ResultAsync` does not settle before its deadline.
+ */
+export class TimeoutError extends TaggedError('TimeoutError') {
+  constructor(readonly timeoutMs: number) {
+    super(`Timed out after ${timeoutMs}ms`)
+  }
+}
@@ -0,0 +1,42 @@
+import { err, ok, Result } from './result'
+
+export type NonEmptyArray<A> = [A, ...A[]]
+
+/**
+ * Runs checks on a value, accumulating their errors instead of stopping at
+ * the first one.
+ *
+ * Created by `Result.validate`.
+ */
+export class Validation<T, E> {
+  constructor(readonly value: T, private readonly errors: readonly E[] = []) {}
+
+  /**
+   * Runs an independent check, whether the previous checks passed or not.
+   *
+   * @param f the check, returning an `Err` when the value is invalid
+   */
+  check<F>(f: (value: T) => Result<unknown, F>): Validation<T, E | F> {
+    const result = f(this.value)
+    return result.isErr()
+      ? new Validation<T, E | F>(this.value, [...this.errors, result.error])
+      : this
+  }
+
+  /**
+   * Runs a dependent check, only if all the previous checks passed.
+   *
+   * @param f the check, returning an `Err` when the value is invalid
+   */
+  andCheck<F>(f: (value: T) => Result<unknown, F>): Validation<T, E | F> {
+    return this.errors.length > 0 ? this : this.check(f)
+  }
+
+  /**
+   * Returns an `Ok` with the value if all the checks passed, or an `Err` with
+   * the errors of all the failed checks, in the order they were run.
+   */
+  result(): Result<T, NonEmptyArray<E>> {
+    return this.errors.length > 0 ? err(this.errors.slice() as NonEmptyArray<E>) : ok(this.value)
+  }
+}
@@ -0,0 +1,150 @@
+import { AbortedError, err, fromPromise, ok, okAsync, ResultAsync } from '../src'
+
+import { describe, expect, it, vitest } from 'vitest'
+
+const never = <T>() => new Promise<T>(() => undefined)
+
+describe('ResultAsync.fromAbortable', () => {
+  it('Passes the signal to the operation', async () => {
+    const controller = new AbortController()
+    const fn = vitest.fn((signal: AbortSignal) => Promise.resolve(signal.aborted))
+
+    const result = await ResultAsync.fromAbortable(fn, () => 'oops', controller.signal)
+
+    expect(result).toEqual(ok(false))
+    expect(fn).toHaveBeenCalledWith(controller.signal)
+  })
+
+  it('Maps the rejections of the operation with errorFn', async () => {
+    const controller = new AbortController()
+
+    const result = await ResultAsync.fromAbortable(
+      () => Promise.reject(new Error('boom')),
+      (e) => (e as Error).message,
+      controller.signal,
+    )
+
+    expect(result).toEqual(err('boom'))
+  })
+
+  it('Fails with an AbortedError as soon as the signal fires', async () => {
+    const controller = new AbortController()
+    const result = ResultAsync.fromAbortable(never, () => 'oops', controller.signal)
+
+    controller.abort('user left')
+
+    const error = (await result)._unsafeUnwrapErr()
+    expect(error).toBeInstanceOf(AbortedError)
+    expect(error).toMatchObject({ _tag: 'AbortedError', cause: 'user left' })
+  })
+
+  it('Does not map the rejection caused by the abort with errorFn', async () => {
+    const controller = new AbortController()
+    const errorFn = vitest.fn(() => 'oops')
+    const fn = (signal: AbortSignal) =>
+      new Promise<number>((_, reject) =>
+        signal.addEventListener('abort', () => reject(signal.reason)),
+      )
+
+    const result = ResultAsync.fromAbortable(fn, errorFn, controller.signal)
+    controller.abort()
+
+    expect((await result)._unsafeUnwrapErr()).toBeInstanceOf(AbortedError)
+    expect(errorFn).not.toHaveBeenCalled()
+  })
+
+  it('Does not call the operation when the signal has already fired', async () => {
+    const controller = new AbortController()
+    controller.abort()
+    const fn = vitest.fn(() => Promise.resolve(1))
+
+    const result = await ResultAsync.fromAbortable(fn, () => 'oops', controller.signal)
+
+    expect(result._unsafeUnwrapErr()).toBeInstanceOf(AbortedError)
+    expect(fn).not.toHaveBeenCalled()
+  })
+})
+
+describe('ResultAsync.fromPromise with a signal', () => {
+  it('Keeps the Result settled before the signal fires', async () => {
+    const controller = new AbortController()
+
+    const result = await fromPromise(Promise.resolve(1), () => 'oops', {
+      signal: controller.signal,
+    })
+
+    expect(result).toEqual(ok(1))
+  })
+
+  it('Fails with an AbortedError when the signal fires', async () => {
+    const controller = new AbortController()
+    const result = fromPromise(never(), () => 'oops', { signal: controller.signal })
+
+    controller.abort()
+
+    expect((await result)._unsafeUnwrapErr()).toBeInstanceOf(AbortedError)
+  })
+})
+
+describe('Chaining after an aborted signal', () => {
+  it('Skips map and andThen once the signal has fired', async () => {
+    const controller = new AbortController()
+    const mapper = vitest.fn((n: number) => n + 1)
+    const next = vitest.fn((n: number) => okAsync(n * 2))
+
+    const result = ResultAsync.fromAbortable(
+      () => Promise.resolve(1),
+      () => 'oops',
+      controller.signal,
+    )
+      .andTee(() => controller.abort())
+      .map(mapper)
+      .andThen(next)
+
+    expect((await result)._unsafeUnwrapErr()).toBeInstanceOf(AbortedError)
+    expect(mapper).not.toHaveBeenCalled()
+    expect(next).not.toHaveBeenCalled()
+  })
+
+  it('Runs the steps when the signal does not fire', async () => {
+    const controller = new AbortController()
+
+    const result = await fromPromise(Promise.resolve(1), () => 'oops', {
+      signal: controller.signal,
+    })
+      .map((n) => n + 1)
+      .andThen((n) => okAsync(n * 2))
+
+    expect(result).toEqual(ok(4))
+  })
+
+  it('Lets orElse recover from the AbortedError', async () => {
+    const controller = new AbortController()
+    controller.abort()
+
+    const result = await ResultAsync.fromAbortable(
+      () => Promise.resolve(1),
+      () => 'oops',
+      controller.signal,
+    ).orElse(() => okAsync(0))
+
+    expect(result).toEqual(ok(0))
+  })
+
+  it('Does not skip the steps chained after orElse and mapErr', async () => {
+    const controller = new AbortController()
+    const source = ResultAsync.fromAbortable(
+      () => Promise.resolve(1),
+      () => 'oops',
+      controller.signal,
+    )
+    const recovered = source.orElse(() => okAsync(5))
+    const mapped = source.mapErr(() => 'mapped')
+    await source
+    controller.abort()
+
+    expect(await recovered.map((n) => n + 1)).toEqual(ok(2))
+    expect(await mapped.map((n) => n + 1)).toEqual(ok(2))
+    expect(await source.map((n) => n + 1)).toEqual(err(expect.any(AbortedError)))
+  })
+})
@@ -0,0 +1,49 @@
+import { err, errAsync, ok, okAsync, ResultAsync } from '../src'
+
+import { describe, expect, it } from 'vitest'
+
+const delayed = <T>(ms: number, value: T) =>
+  ResultAsync.fromSafePromise<T, never>(
+    new Promise((resolve) => setTimeout(() => resolve(value), ms)),
+  )
+
+const never = <T, E>() => ResultAsync.fromSafePromise<T, E>(new Promise<T>(() => undefined))
+
+describe('ResultAsync.any', () => {
+  it('Succeeds with the first Ok to settle', async () => {
+    const result = await ResultAsync.any([
+      delayed(20, 'replica'),
+      errAsync('cache miss'),
+      delayed(10, 'primary'),
+    ])
+
+    expect(result).toEqual(ok('primary'))
+  })
+
+  it('Does not wait for the pending ResultAsyncs after the first Ok', async () => {
+    expect(await ResultAsync.any([never<number, string>(), okAsync(1)])).toEqual(ok(1))
+  })
+
+  it('Fails with the errors of all the ResultAsyncs in the order of the list', async () => {
+    const result = await ResultAsync.any([
+      delayed(10, null).andThen(() => err('first')),
+      errAsync('second'),
+    ])
+
+    expect(result).toEqual(err(['first', 'second']))
+  })
+
+  it('Fails with an empty list of errors when there are no ResultAsyncs', async () => {
+    expect(await ResultAsync.any([])).toEqual(err([]))
+  })
+})
+
+describe('ResultAsync.race', () => {
+  it('Settles with the first Ok to settle', async () => {
+    expect(await ResultAsync.race([delayed(20, 'slow'), delayed(10, 'fast')])).toEqual(ok('fast'))
+  })
+
+  it('Settles with the first Err to settle', async () => {
+    expect(await ResultAsync.race([never<number, string>(), errAsync('oops')])).toEqual(err('oops'))
+  })
+})
@@ -0,0 +1,129 @@
+import {
+  err,
+  errAsync,
+  fromPromise,
+  fromThrowable,
+  ok,
+  Result,
+  ResultAsync,
+  safeTry,
+  setCallSiteCapture,
+} from '../src'
+
+import { afterEach, describe, expect, it } from 'vitest'
+
+const thrower = (): never => {
+  throw new Error('oops')
+}
+
+describe('Call site capture', () => {
+  afterEach(() => {
+    setCallSiteCapture(false)
+  })
+
+  it('Does not capture call sites by default', () => {
+    const result = fromThrowable(thrower)()
+
+    expect(err('oops').callSite).toBeUndefined()
+    expect(result.isErr() && result.callSite).toBeUndefined()
+  })
+
+  it('Captures the call site of err when enabled globally', () => {
+    setCallSiteCapture(true)
+
+    const result = err('oops')
+
+    expect(result.callSite).toContain('call-site.test.ts')
+    expect(result.callSite).not.toMatch(/^Error/)
+  })
+
+  it('Captures the call site of a single call', () => {
+    expect(err('oops', { captureCallSite: true }).callSite).toContain('call-site.test.ts')
+  })
+
+  it('Lets a single call opt out of the global capture', () => {
+    setCallSiteCapture(true)
+
+    expect(err('oops', { captureCallSite: false }).callSite).toBeUndefined()
+  })
+
+  it('Keeps the call site out of comparisons', () => {
+    setCallSiteCapture(true)
+
+    expect(err('oops')).toEqual(err('oops', { captureCallSite: false }))
+  })
+
+  it('Keeps the original call site through the chain', () => {
+    const result = err<number, string>('oops', { captureCallSite: true })
+
+    const chained = result
+      .map((n) => n + 1)
+      .mapErr((e) => e.toUpperCase())
+      .andThen((n) => ok(n))
+
+    expect(chained.isErr() && chained.callSite).toBe(result.callSite)
+  })
+
+  it('Captures the call site of fromThrowable', () => {
+    const safeThrower = fromThrowable(thrower, undefined, { captureCallSite: true })
+
+    const result = safeThrower()
+
+    expect(result.isErr() && result.callSite).toContain('call-site.test.ts')
+  })
+
+  it('Captures the call site of errAsync and keeps it through the chain', async () => {
+    const result = await errAsync<number, string>('oops', { captureCallSite: true })
+      .map((n) => n + 1)
+      .mapErr((e) => e.toUpperCase())
+
+    expect(result.isErr() && result.callSite).toContain('call-site.test.ts')
+  })
+
+  it('Captures the call site of fromPromise and ResultAsync.fromThrowable', async () => {
+    setCallSiteCapture(true)
+
+    const fromPromiseResult = await fromPromise(Promise.reject(new Error('oops')), (e) => e)
+    const fromThrowableResult = await ResultAsync.fromThrowable(async () => thrower())()
+
+    expect(fromPromiseResult.isErr() && fromPromiseResult.callSite).toContain('call-site.test.ts')
+    expect(fromThrowableResult.isErr() && fromThrowableResult.callSite).toContain(
+      'call-site.test.ts',
+    )
+  })
+
+  it('Captures the call site of Result.try and ResultAsync.try', async () => {
+    setCallSiteCapture(true)
+
+    const syncResult = Result.try(thrower)
+    const asyncResult = await Result.try(() => Promise.reject(new Error('oops')))
+    const resultAsync = await ResultAsync.try(thrower)
+
+    for (const result of [syncResult, asyncResult, resultAsync]) {
+      expect(result.isErr() && result.callSite).toContain('call-site.test.ts')
+    }
+  })
+
+  it('Keeps the original call site through safeTry', async () => {
+    const error = err<number, string>('oops', { captureCallSite: true })
+    const asyncError = errAsync<number, string>('oops', { captureCallSite: true })
+
+    const syncResult = safeTry(function* () {
+      return ok(yield* error.safeUnwrap())
+    })
+    const asyncResult = await safeTry(async function* () {
+      return ok(yield* asyncError)
+    })
+
+    expect(syncResult.isErr() && syncResult.callSite).toBe(error.callSite)
+    expect(asyncResult.isErr() && asyncResult.callSite).toBe((await asyncError).callSite)
+  })
+
+  it('Includes the call site in unwrap failures', () => {
+    const result = err('oops', { captureCallSite: true })
+
+    expect(() => result._unsafeUnwrap()).toThrow(
+      expect.objectContaining({ callSite: result.callSite }),
+    )
+  })
+})
@@ -0,0 +1,106 @@
+import { err, fromPromise, fromThrowable, ok, Result, ResultAsync, TaggedError } from '../src'
+
+import { describe, expect, it } from 'vitest'
+
+class NotFoundError extends TaggedError('NotFoundError') {}
+class ValidationError extends TaggedError('ValidationError') {}
+
+const throwing = (e: unknown) => (): number => {
+  throw e
+}
+
+const isValidationError = (e: unknown): e is ValidationError => e instanceof ValidationError
+
+describe('Result.fromThrowable with catch', () => {
+  it('Returns an Ok when the function does not throw', () => {
+    const safe = Result.fromThrowable(() => 1, { catch: [NotFoundError] })
+
+    expect(safe()).toEqual(ok(1))
+  })
+
+  it('Catches the errors of the listed classes', () => {
+    const notFound = new NotFoundError()
+    const validation = new ValidationError()
+
+    expect(
+      Result.fromThrowable(throwing(notFound), { catch: [NotFoundError, ValidationError] })(),
+    ).toEqual(err(notFound))
+    expect(
+      fromThrowable(throwing(validation), { catch: [NotFoundError, ValidationError] })(),
+    ).toEqual(err(validation))
+  })
+
+  it('Rethrows the errors of other classes', () => {
+    const safe = Result.fromThrowable(throwing(new TypeError('typo')), { catch: [NotFoundError] })
+
+    expect(safe).toThrow(TypeError)
+  })
+
+  it('Catches the errors accepted by a type guard', () => {
+    const validation = new ValidationError()
+
+    expect(Result.fromThrowable(throwing(validation), { catch: isValidationError })()).toEqual(
+      err(validation),
+    )
+    expect(Result.fromThrowable(throwing('oops'), { catch: isValidationError })).toThrow()
+  })
+})
+
+describe('ResultAsync.fromPromise with catch', () => {
+  it('Catches the errors of the listed classes', async () => {
+    const notFound = new NotFoundError()
+
+    const result = await fromPromise(Promise.reject(notFound), { catch: [NotFoundError] })
+
+    expect(result).toEqual(err(notFound))
+  })
+
+  it('Rejects with the errors of other classes', async () => {
+    const result = ResultAsync.fromPromise(Promise.reject(new TypeError('typo')), {
+      catch: [NotFoundError],
+    })
+
+    await expect(result).rejects.toThrow(TypeError)
+  })
+
+  it('Catches the errors accepted by a type guard', async () => {
+    const validation = new ValidationError()
+
+    const result = await ResultAsync.fromPromise(Promise.reject(validation), {
+      catch: isValidationError,
+    })
+
+    expect(result).toEqual(err(validation))
+  })
+
+  it('Supports the other options', async () => {
+    const result = await ResultAsync.fromPromise(new Promise<number>(() => undefined), {
+      catch: [NotFoundError],
+      timeoutMs: 0,
+    })
+
+    expect(result._unsafeUnwrapErr()).toMatchObject({ _tag: 'TimeoutError' })
+  })
+})
+
+describe('ResultAsync.fromThrowable with catch', () => {
+  it('Catches the errors of the listed classes', async () => {
+    const notFound = new NotFoundError()
+    const safe = ResultAsync.fromThrowable(() => Promise.reject(notFound), {
+      catch: [NotFoundError],
+    })
+
+    expect(await safe()).toEqual(err(notFound))
+  })
+
+  it('Rejects with the errors of other classes', async () => {
+    const safe = ResultAsync.fromThrowable(
+      async () => {
+        throw new TypeError('typo')
+      },
+      { catch: [NotFoundError] },
+    )
+
+    await expect(safe()).rejects.toThrow(TypeError)
+  })
+})
@@ -0,0 +1,126 @@
+import { err, errAsync, none, ok, okAsync, Result, ResultAsync, some } from '../src'
+
+import { describe, expect, it, vi } from 'vitest'
+
+const results: Result<number, string>[] = [ok(1), err('a'), ok(2), err('b')]
+
+async function* generate<A>(items: A[]): AsyncGenerator<A> {
+  for (const item of items) {
+    yield item
+  }
+}
+
+describe('Result list helpers', () => {
+  it('Collects the values of the Oks', () => {
+    expect(Result.collectOks(results)).toEqual([1, 2])
+    expect(Result.collectOks([])).toEqual([])
+  })
+
+  it('Collects the errors of the Errs', () => {
+    expect(Result.collectErrs(results)).toEqual(['a', 'b'])
+  })
+
+  describe('Result.findOk', () => {
+    it('Finds the value of the first Ok', () => {
+      expect(Result.findOk(results)).toEqual(some(1))
+    })
+
+    it('Finds the value of the first Ok satisfying the predicate', () => {
+      expect(Result.findOk(results, (n) => n > 1)).toEqual(some(2))
+      expect(Result.findOk(results, (n) => n > 2)).toEqual(none())
+    })
+
+    it('Finds nothing among Errs', () => {
+      expect(Result.findOk([err('a'), err('b')])).toEqual(none())
+    })
+  })
+
+  describe('Result.filterMap', () => {
+    it('Keeps the values of the Oks', () => {
+      const parse = (text: string) => {
+        const n = Number(text)
+        return Number.isNaN(n) ? err(`${text} is not a number`) : ok(n)
+      }
+
+      expect(Result.filterMap(['1', 'x', '3'], parse)).toEqual([1, 3])
+    })
+
+    it('Passes the index and accepts any iterable', () => {
+      expect(
+        Result.filterMap(new Set(['a', 'b']), (item, index) => ok(`${item}${index}`)),
+      ).toEqual(['a0', 'b1'])
+    })
+  })
+})
+
+describe('ResultAsync list helpers', () => {
+  const asyncResults = () => [okAsync(1), errAsync('a'), okAsync(2), errAsync('b')]
+
+  it('Collects the values of the Oks', async () => {
+    expect(await ResultAsync.collectOks(asyncResults())).toEqual(ok([1, 2]))
+    expect(await ResultAsync.collectOks(generate(results))).toEqual(ok([1, 2]))
+  })
+
+  it('Collects the errors of the Errs', async () => {
+    expect(await ResultAsync.collectErrs(asyncResults())).toEqual(ok(['a', 'b']))
+    expect(await ResultAsync.collectErrs(generate(results))).toEqual(ok(['a', 'b']))
+  })
+
+  describe('ResultAsync.findOk', () => {
+    it('Finds the value of the first Ok in the order of the list', async () => {
+      const slow = ResultAsync.fromSafePromise(
+        new Promise<number>((resolve) => setTimeout(() => resolve(1), 10)),
+      )
+
+      expect(await ResultAsync.findOk([errAsync('a'), slow, okAsync(2)])).toEqual(some(1))
+    })
+
+    it('Finds the value of the first Ok satisfying the predicate', async () => {
+      expect(await ResultAsync.findOk(asyncResults(), (n) => n > 1)).toEqual(some(2))
+      expect(await ResultAsync.findOk(generate(results), (n) => n > 2)).toEqual(none())
+    })
+
+    it('Stops consuming the async iterable once found', async () => {
+      const consumed = vi.fn()
+      async function* source(): AsyncGenerator<Result<number, string>> {
+        for (const result of results) {
+          consumed()
+          yield result
+        }
+      }
+
+      expect(await ResultAsync.findOk(source())).toEqual(some(1))
+      expect(consumed).toHaveBeenCalledTimes(1)
+    })
+  })
+
+  describe('ResultAsync.filterMap', () => {
+    it('Keeps the values of the Oks', async () => {
+      const result = await ResultAsync.filterMap([1, 2, 3, 4], (n) =>
+        n % 2 === 0 ? okAsync(n * 10) : err('odd'),
+      )
+
+      expect(result).toEqual(ok([20, 40]))
+    })
+
+    it('Maps the items one after another', async () => {
+      const indexes: number[] = []
+      let running = 0
+      let maxRunning = 0
+
+      await ResultAsync.filterMap(generate([1, 2, 3]), (n, index) => {
+        indexes.push(index)
+        running++
+        maxRunning = Math.max(maxRunning, running)
+        return ResultAsync.fromSafePromise(
+          new Promise<number>((resolve) => setTimeout(() => resolve(n), 1)),
+        ).andTee(() => {
+          running--
+        })
+      })
+
+      expect(indexes).toEqual([0, 1, 2])
+      expect(maxRunning).toBe(1)
+    })
+  })
+})
@@ -0,0 +1,82 @@
+import { err, errAsync, ok, okAsync, Result, ResultAsync } from '../src'
+
+import { describe, expect, it } from 'vitest'
+
+describe('Result.combineObject', () => {
+  it('Combines the values under their key', () => {
+    const result = Result.combineObject({ user: ok('alice'), org: ok(42) })
+
+    expect(result).toEqual(ok({ user: 'alice', org: 42 }))
+  })
+
+  it('Fails with the first Err in the order of the keys', () => {
+    const result = Result.combineObject({
+      user: ok('alice'),
+      org: err('no org'),
+      team: err('no team'),
+    })
+
+    expect(result).toEqual(err('no org'))
+  })
+
+  it('Succeeds with an empty object when there are no Results', () => {
+    expect(Result.combineObject({})).toEqual(ok({}))
+  })
+})
+
+describe('Result.combineObjectWithAllErrors', () => {
+  it('Combines the values under their key', () => {
+    expect(Result.combineObjectWithAllErrors({ user: ok('alice'), org: ok(42) })).toEqual(
+      ok({ user: 'alice', org: 42 }),
+    )
+  })
+
+  it('Fails with the errors under the key of their Result', () => {
+    const result = Result.combineObjectWithAllErrors({
+      user: ok('alice'),
+      org: err('no org'),
+      team: err('no team'),
+    })
+
+    expect(result).toEqual(err({ org: 'no org', team: 'no team' }))
+  })
+})
+
+describe('ResultAsync.combineObject', () => {
+  it('Waits for the ResultAsyncs concurrently', async () => {
+    const started: string[] = []
+    const lookup = (key: string, ms: number) => {
+      started.push(key)
+      return ResultAsync.fromSafePromise<string, never>(
+        new Promise((resolve) => setTimeout(() => resolve(key), ms)),
+      )
+    }
+
+    const result = ResultAsync.combineObject({ user: lookup('user', 20), org: lookup('org', 10) })
+
+    expect(started).toEqual(['user', 'org'])
+    expect(await result).toEqual(ok({ user: 'user', org: 'org' }))
+  })
+
+  it('Fails with the first Err in the order of the keys', async () => {
+    const result = await ResultAsync.combineObject({
+      user: okAsync('alice'),
+      org: errAsync('no org'),
+      team: errAsync('no team'),
+    })
+
+    expect(result).toEqual(err('no org'))
+  })
+})
+
+describe('ResultAsync.combineObjectWithAllErrors', () => {
+  it('Fails with the errors under the key of their ResultAsync', async () => {
+    const result = await ResultAsync.combineObjectWithAllErrors({
+      user: okAsync('alice'),
+      org: errAsync('no org'),
+      team: errAsync('no team'),
+    })
+
+    expect(result).toEqual(err({ org: 'no org', team: 'no team' }))
+  })
+})
@@ -0,0 +1,84 @@
+import { ContextError, err, errAsync, formatErrorChain, ok, okAsync } from '../src'
+
+import { vitest, describe, expect, it } from 'vitest'
+
+describe('context', () => {
+  it('Wraps an Err in a ContextError', () => {
+    const cause = new Error('ECONNRESET')
+
+    const error = err(cause).context('fetching the user')._unsafeUnwrapErr()
+
+    expect(error).toBeInstanceOf(ContextError)
+    expect(error).toBeInstanceOf(Error)
+    expect(error.message).toBe('fetching the user')
+    expect(error.cause).toBe(cause)
+  })
+
+  it('Computes the message from the error', () => {
+    const error = err({ code: 404 })
+      .context((e) => `request failed with ${e.code}`)
+      ._unsafeUnwrapErr()
+
+    expect(error.message).toBe('request failed with 404')
+    expect(error.cause).toEqual({ code: 404 })
+  })
+
+  it('Computes the message lazily with withContext', () => {
+    const messageFn = vitest.fn((e: string) => `failed: ${e}`)
+
+    expect(ok<number, string>(1).withContext(messageFn)).toEqual(ok(1))
+    expect(messageFn).not.toHaveBeenCalled()
+    expect(err('oops').withContext(messageFn)._unsafeUnwrapErr().message).toBe('failed: oops')
+  })
+
+  it('Leaves an Ok untouched', () => {
+    expect(ok(1).context('unused')).toEqual(ok(1))
+  })
+
+  it('Wraps the Err of a ResultAsync', async () => {
+    const error = (await errAsync('ECONNRESET').context('fetching the user'))._unsafeUnwrapErr()
+
+    expect(error).toBeInstanceOf(ContextError)
+    expect(error.message).toBe('fetching the user')
+    expect(error.cause).toBe('ECONNRESET')
+    expect(await okAsync(1).withContext(() => 'unused')).toEqual(ok(1))
+  })
+})
+
+describe('formatErrorChain', () => {
+  it('Formats an error without cause', () => {
+    expect(formatErrorChain(new Error('ECONNRESET'))).toBe('Error: ECONNRESET')
+    expect(formatErrorChain('ECONNRESET')).toBe('ECONNRESET')
+  })
+
+  it('Formats the whole chain of causes', () => {
+    const error = err(new TypeError('ECONNRESET'))
+      .context('reading /etc/app.json')
+      .context('loading the configuration')
+      ._unsafeUnwrapErr()
+
+    expect(formatErrorChain(error)).toBe(
+      [
+        'loading the configuration',
+        '',
+        'Caused by:',
+        '    0: reading /etc/app.json',
+        '    1: TypeError: ECONNRESET',
+      ].join('\n'),
+    )
+  })
+
+  it('Serializes plain object causes', () => {
+    expect(formatErrorChain(new ContextError('querying', { code: 'ETIMEDOUT' }))).toBe(
+      ['querying', '', 'Caused by:', '    0: {"code":"ETIMEDOUT"}'].join('\n'),
+    )
+  })
+
+  it('Stops on cyclic causes', () => {
+    const first = new ContextError<unknown>('first', undefined)
+    const second = new ContextError<unknown>('second', first)
+    Object.assign(first, { cause: second })
+
+    expect(formatErrorChain(first)).toBe(['first', '', 'Caused by:', '    0: second'].join('\n'))
+  })
+})
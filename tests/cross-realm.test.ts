@@ -0,0 +1,101 @@
+import { Err, err, Ok, ok, okAsync, Result, ResultAsync, safeTry } from '../src'
+
+import { beforeAll, describe, expect, it, vi } from 'vitest'
+
+// A second copy of neverthrow, like the one a dependency would bring along
+let foreign: typeof import('../src')
+
+beforeAll(async () => {
+  vi.resetModules()
+  foreign = await import('../src')
+})
+
+describe('Cross-realm guards', () => {
+  it('Loads a distinct copy of the classes', () => {
+    expect(foreign.ok(1)).not.toBeInstanceOf(Ok)
+    expect(foreign.err('oops')).not.toBeInstanceOf(Err)
+  })
+
+  describe('Result.isResult', () => {
+    it('Recognizes the Results of this copy', () => {
+      expect(Result.isResult(ok(1))).toBe(true)
+      expect(Result.isResult(err('oops'))).toBe(true)
+    })
+
+    it('Recognizes the Results of another copy', () => {
+      expect(Result.isResult(foreign.ok(1))).toBe(true)
+      expect(Result.isResult(foreign.err('oops'))).toBe(true)
+    })
+
+    it('Rejects anything else', () => {
+      expect(Result.isResult(undefined)).toBe(false)
+      expect(Result.isResult(null)).toBe(false)
+      expect(Result.isResult('ok')).toBe(false)
+      expect(Result.isResult({ value: 1, isOk: () => true })).toBe(false)
+      expect(Result.isResult(okAsync(1))).toBe(false)
+    })
+  })
+
+  it('Tells Ok and Err apart', () => {
+    expect(Result.isOk(foreign.ok(1))).toBe(true)
+    expect(Result.isOk(foreign.err('oops'))).toBe(false)
+    expect(Result.isErr(foreign.err('oops'))).toBe(true)
+    expect(Result.isErr(foreign.ok(1))).toBe(false)
+    expect(Result.isOk({})).toBe(false)
+  })
+
+  it('Narrows the type of unknown values', () => {
+    const value: unknown = foreign.ok(1)
+
+    expect(Result.isOk(value) && value.value).toBe(1)
+  })
+
+  it('Recognizes the ResultAsyncs of any copy', () => {
+    expect(ResultAsync.isResultAsync(okAsync(1))).toBe(true)
+    expect(ResultAsync.isResultAsync(foreign.errAsync('oops'))).toBe(true)
+    expect(ResultAsync.isResultAsync(ok(1))).toBe(false)
+    expect(ResultAsync.isResultAsync(Promise.resolve(ok(1)))).toBe(false)
+  })
+
+  describe('Foreign Results', () => {
+    it('Are combined', () => {
+      expect(Result.combine([ok(1), foreign.ok(2)])).toEqual(ok([1, 2]))
+      expect(Result.combine([ok(1), foreign.err('oops')])).toEqual(err('oops'))
+    })
+
+    it('Are combined asynchronously', async () => {
+      expect(await ResultAsync.combine([okAsync(1), foreign.okAsync(2)])).toEqual(ok([1, 2]))
+      expect(await ResultAsync.combine([okAsync(1), foreign.errAsync('oops')])).toEqual(err('oops'))
+    })
+
+    it('Are adopted by safeTry', () => {
+      const result = safeTry(function* () {
+        const value = yield* foreign.ok(1)
+        return foreign.ok(value + 1)
+      })
+
+      expect(result).toBeInstanceOf(Ok)
+      expect(result).toEqual(ok(2))
+    })
+
+    it('Are adopted when yielded as Err by safeTry', () => {
+      const result = safeTry(function* () {
+        yield* foreign.err('oops')
+        return ok(1)
+      })
+
+      expect(result).toBeInstanceOf(Err)
+      expect(result).toEqual(err('oops'))
+    })
+
+    it('Are adopted by async safeTry', async () => {
+      const result = await safeTry(async function* () {
+        yield* foreign.errAsync('oops')
+        return ok(1)
+      })
+
+      expect(result).toBeInstanceOf(Err)
+      expect(result).toEqual(err('oops'))
+    })
+  })
+})
@@ -0,0 +1,117 @@
+import { DecodeError, Decoder, ok } from '../src'
+
+import { describe, expect, it } from 'vitest'
+
+const failures = (decoder: Decoder<unknown>, input: unknown) =>
+  decoder
+    .decode(input)
+    ._unsafeUnwrapErr()
+    .map(({ path, message }) => ({ path, message }))
+
+describe('Decoder primitives', () => {
+  it('Accepts values of the expected type', () => {
+    expect(Decoder.string.decode('a')).toEqual(ok('a'))
+    expect(Decoder.number.decode(1)).toEqual(ok(1))
+    expect(Decoder.boolean.decode(false)).toEqual(ok(false))
+    expect(Decoder.literal('admin').decode('admin')).toEqual(ok('admin'))
+    expect(Decoder.literal(null).decode(null)).toEqual(ok(null))
+  })
+
+  it('Rejects values of another type with a DecodeError', () => {
+    const [error] = Decoder.string.decode(1)._unsafeUnwrapErr()
+
+    expect(error).toBeInstanceOf(DecodeError)
+    expect(error).toMatchObject({ path: '$', message: 'Expected a string, got number 1' })
+    expect(failures(Decoder.number, null)).toEqual([
+      { path: '$', message: 'Expected a number, got null' },
+    ])
+    expect(failures(Decoder.literal('admin'), 'user')).toEqual([
+      { path: '$', message: 'Expected "admin", got string "user"' },
+    ])
+  })
+})
+
+describe('Decoder.object', () => {
+  const user = Decoder.object({
+    name: Decoder.string,
+    age: Decoder.number,
+    nickname: Decoder.optional(Decoder.string),
+  })
+
+  it('Decodes the fields of the shape', () => {
+    expect(user.decode({ name: 'Ada', age: 36, nickname: 'ada', admin: true })).toEqual(
+      ok({ name: 'Ada', age: 36, nickname: 'ada' }),
+    )
+  })
+
+  it('Leaves out the missing optional fields', () => {
+    const decoded = user.decode({ name: 'Ada', age: 36 })._unsafeUnwrap()
+
+    expect(decoded).toEqual({ name: 'Ada', age: 36 })
+    expect('nickname' in decoded).toBe(false)
+  })
+
+  it('Reports the failures of all the fields with their path', () => {
+    expect(failures(user, { age: '36', nickname: 1 })).toEqual([
+      { path: '$.name', message: 'Expected a string, got undefined' },
+      { path: '$.age', message: 'Expected a number, got string "36"' },
+      { path: '$.nickname', message: 'Expected a string, got number 1' },
+    ])
+  })
+
+  it('Rejects inputs which are not objects', () => {
+    expect(failures(user, [])).toEqual([{ path: '$', message: 'Expected an object, got an array' }])
+  })
+
+  it('Quotes the keys which are not identifiers in paths', () => {
+    const headers = Decoder.object({ 'content-type': Decoder.string })
+
+    expect(failures(headers, {})[0].path).toBe('$["content-type"]')
+  })
+})
+
+describe('Decoder.array', () => {
+  it('Decodes the items', () => {
+    expect(Decoder.array(Decoder.number).decode([1, 2])).toEqual(ok([1, 2]))
+  })
+
+  it('Reports the failures of all the items with their path', () => {
+    const decoder = Decoder.object({ tags: Decoder.array(Decoder.string) })
+
+    expect(failures(decoder, { tags: ['a', 1, null] }).map(({ path }) => path)).toEqual([
+      '$.tags[1]',
+      '$.tags[2]',
+    ])
+  })
+})
+
+describe('Decoder.union', () => {
+  const role = Decoder.union(Decoder.literal('admin'), Decoder.literal('user'))
+
+  it('Accepts the inputs accepted by any of the decoders', () => {
+    expect(role.decode('user')).toEqual(ok('user'))
+  })
+
+  it('Reports the failures of all the decoders', () => {
+    expect(failures(role, 'guest')).toHaveLength(2)
+  })
+})
+
+describe('Decoder.refine', () => {
+  it('Rejects the values which do not satisfy the predicate', () => {
+    const port = Decoder.number.refine((n) => Number.isInteger(n) && n > 0, 'Expected a port')
+
+    expect(port.decode(80)).toEqual(ok(80))
+    expect(failures(Decoder.object({ port }), { port: -1 })).toEqual([
+      { path: '$.port', message: 'Expected a port' },
+    ])
+  })
+})
+
+describe('Decoder.map', () => {
+  it('Transforms the decoded values', () => {
+    const date = Decoder.string.map((s) => new Date(s))
+
+    expect(date.decode('2024-01-01')._unsafeUnwrap()).toEqual(new Date('2024-01-01'))
+  })
+})
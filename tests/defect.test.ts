@@ -0,0 +1,199 @@
+import {
+  Defect,
+  err,
+  errAsync,
+  none,
+  ok,
+  okAsync,
+  ResultAsync,
+  safeTry,
+  setDefectCapture,
+} from '../src'
+
+import { afterEach, describe, expect, it, vi } from 'vitest'
+
+const oops = new Error('oops')
+
+const thrower = (): never => {
+  throw oops
+}
+
+// Gets the defect of a ResultAsync, or undefined when it has none
+const defectOf = <T, E>(resultAsync: ResultAsync<T, E>): Promise<Defect | undefined> =>
+  resultAsync.matchDefect(
+    () => undefined,
+    () => undefined,
+    (defect) => defect,
+  )
+
+describe('Defect capture', () => {
+  afterEach(() => {
+    setDefectCapture(false)
+  })
+
+  it('Rejects when a callback throws by default', async () => {
+    await expect(okAsync(1).map(thrower)).rejects.toBe(oops)
+  })
+
+  it('Captures what a map callback throws as a Defect', async () => {
+    setDefectCapture(true)
+
+    const defect = await defectOf(okAsync(1).map(thrower))
+
+    expect(defect).toBeInstanceOf(Defect)
+    expect(defect?.cause).toBe(oops)
+  })
+
+  it('Captures what an andThen callback throws as a Defect', async () => {
+    setDefectCapture(true)
+
+    expect(await defectOf(okAsync(1).andThen(thrower))).toBeInstanceOf(Defect)
+  })
+
+  it('Captures the rejection of the wrapped promise', async () => {
+    setDefectCapture(true)
+
+    expect((await defectOf(new ResultAsync(Promise.reject(oops))))?.cause).toBe(oops)
+  })
+
+  it('Reports every defect once to the handler', async () => {
+    const onDefect = vi.fn()
+    setDefectCapture(true, onDefect)
+
+    await defectOf(
+      okAsync(1)
+        .map(thrower)
+        .map((n) => n + 1)
+        .andThen((n) => ok(n)),
+    )
+
+    expect(onDefect).toHaveBeenCalledTimes(1)
+    expect(onDefect.mock.calls[0][0].cause).toBe(oops)
+  })
+
+  it('Does not reject when the handler throws', async () => {
+    setDefectCapture(true, thrower)
+
+    expect(await defectOf(okAsync(1).map(thrower))).toBeInstanceOf(Defect)
+  })
+
+  it('Skips the steps chained after the defect', async () => {
+    setDefectCapture(true)
+    const map = vi.fn()
+    const mapErr = vi.fn()
+    const orElse = vi.fn()
+    const orTee = vi.fn()
+    const catchTag = vi.fn()
+
+    const defect = await defectOf(
+      okAsync<number, { _tag: 'Defect' }>(1)
+        .map(thrower)
+        .map(map)
+        .mapErr(mapErr)
+        .orElse(orElse)
+        .orTee(orTee)
+        .catchTag('Defect', catchTag)
+        .context('while mapping'),
+    )
+
+    expect(map).not.toHaveBeenCalled()
+    expect(mapErr).not.toHaveBeenCalled()
+    expect(orElse).not.toHaveBeenCalled()
+    expect(orTee).not.toHaveBeenCalled()
+    expect(catchTag).not.toHaveBeenCalled()
+    expect(defect).toBeInstanceOf(Defect)
+  })
+
+  it('Keeps the defects of combined ResultAsyncs', async () => {
+    const onDefect = vi.fn()
+    setDefectCapture(true, onDefect)
+
+    const combined = ResultAsync.combine([okAsync(1), okAsync(2).map(thrower)])
+
+    expect(await defectOf(combined)).toBeInstanceOf(Defect)
+    expect(onDefect).toHaveBeenCalledTimes(1)
+  })
+
+  it('Keeps the defects of safeTry', async () => {
+    setDefectCapture(true)
+
+    const result = safeTry(async function* () {
+      const n = yield* okAsync(1).map(thrower)
+      return ok(n)
+    })
+
+    expect(await defectOf(result)).toBeInstanceOf(Defect)
+  })
+
+  it('Still handles the regular errors', async () => {
+    setDefectCapture(true)
+
+    const result = await errAsync('boom')
+      .mapErr((e) => e.toUpperCase())
+      .orElse((e) => err(`${e}!`))
+
+    expect(result).toEqual(err('BOOM!'))
+  })
+
+  describe('Consuming a ResultAsync holding a defect', () => {
+    it('Resolves to an Err holding the defect when awaited', async () => {
+      setDefectCapture(true)
+
+      const result = await okAsync(1).map(thrower)
+
+      expect(result.isErr() && result.error).toBeInstanceOf(Defect)
+    })
+
+    it('Does not reject match and matchTag', async () => {
+      setDefectCapture(true)
+      const onOk = vi.fn()
+
+      const matched = await okAsync(1)
+        .map(thrower)
+        .match(onOk, (e) => e)
+      const handled = await okAsync(1)
+        .map(thrower)
+        .match(onOk, vi.fn(), (defect) => defect.cause)
+      const matchedTag = await okAsync(1).map(thrower).matchTag(onOk, {})
+      const handledTag = await okAsync(1)
+        .map(thrower)
+        .matchTag(onOk, {}, (defect) => defect.cause)
+
+      expect(matched).toBeInstanceOf(Defect)
+      expect(handled).toBe(oops)
+      expect(matchedTag).toBeUndefined()
+      expect(handledTag).toBe(oops)
+      expect(onOk).not.toHaveBeenCalled()
+    })
+
+    it('Does not reject unwrapOr, ok and err', async () => {
+      setDefectCapture(true)
+
+      expect(await okAsync(1).map(thrower).unwrapOr(0)).toBe(0)
+      expect(await okAsync(1).map(thrower).ok()).toEqual(none())
+      expect((await okAsync(1).map(thrower).err()).unwrapOr(undefined)).toBeInstanceOf(Defect)
+    })
+  })
+
+  describe('matchDefect', () => {
+    it('Handles the Ok and Err cases like match', async () => {
+      const onDefect = vi.fn()
+
+      expect(await okAsync(1).matchDefect((n) => n + 1, vi.fn(), onDefect)).toBe(2)
+      expect(await errAsync('boom').matchDefect(vi.fn(), (e) => e.length, onDefect)).toBe(4)
+      expect(onDefect).not.toHaveBeenCalled()
+    })
+
+    it('Handles the captured defects', async () => {
+      setDefectCapture(true)
+      const onErr = vi.fn()
+
+      const cause = await okAsync(1)
+        .map(thrower)
+        .matchDefect(vi.fn(), onErr, (defect) => defect.cause)
+
+      expect(cause).toBe(oops)
+      expect(onErr).not.toHaveBeenCalled()
+    })
+  })
+})
@@ -0,0 +1,191 @@
+import { err, ok, Result, TaggedError } from '../src'
+
+import { describe, expect, it } from 'vitest'
+
+class NotFound extends TaggedError('NotFound') {}
+
+class Meters {
+  constructor(readonly amount: number) {}
+}
+
+class Feet {
+  constructor(readonly amount: number) {}
+}
+
+describe('Result.equals', () => {
+  it('Compares the variants', () => {
+    expect(Result.equals(ok(1), ok(1))).toBe(true)
+    expect(Result.equals(err(1), err(1))).toBe(true)
+    expect(Result.equals<number, number>(ok(1), err(1))).toBe(false)
+    expect(Result.equals<number, number>(err(1), ok(1))).toBe(false)
+  })
+
+  it('Compares primitives by value', () => {
+    expect(Result.equals(ok(NaN), ok(NaN))).toBe(true)
+    expect(Result.equals(ok(1), ok(2))).toBe(false)
+    expect(Result.equals<unknown, never>(ok(1), ok('1'))).toBe(false)
+  })
+
+  it('Compares arrays and plain objects deeply', () => {
+    expect(Result.equals(ok({ a: [1, { b: 2 }] }), ok({ a: [1, { b: 2 }] }))).toBe(true)
+    expect(Result.equals(ok({ a: [1, { b: 2 }] }), ok({ a: [1, { b: 3 }] }))).toBe(false)
+    expect(Result.equals<object, never>(ok({ a: 1 }), ok({ a: 1, b: 2 }))).toBe(false)
+    expect(Result.equals(ok([1, 2]), ok([1, 2, 3]))).toBe(false)
+    expect(Result.equals<unknown, never>(ok([1]), ok({ 0: 1 }))).toBe(false)
+  })
+
+  it('Compares dates by time', () => {
+    expect(Result.equals(ok(new Date(0)), ok(new Date(0)))).toBe(true)
+    expect(Result.equals(ok(new Date(0)), ok(new Date(1)))).toBe(false)
+  })
+
+  it('Compares regular expressions by source and flags', () => {
+    expect(Result.equals(ok(/a/g), ok(/a/g))).toBe(true)
+    expect(Result.equals(ok(/a/), ok(/b/))).toBe(false)
+    expect(Result.equals(ok(/a/), ok(/a/i))).toBe(false)
+  })
+
+  it('Compares class instances by prototype and properties', () => {
+    expect(Result.equals(ok(new Meters(1)), ok(new Meters(1)))).toBe(true)
+    expect(Result.equals(ok(new Meters(1)), ok(new Meters(2)))).toBe(false)
+    expect(Result.equals<unknown, never>(ok(new Meters(1)), ok(new Feet(1)))).toBe(false)
+    expect(Result.equals<unknown, never>(ok(new Meters(1)), ok({ amount: 1 }))).toBe(false)
+  })
+
+  it('Compares maps and sets regardless of their order', () => {
+    const map = (entries: [string, object][]) => new Map(entries)
+
+    expect(
+      Result.equals(
+        ok(
+          map([
+            ['a', { id: 1 }],
+            ['b', {}],
+          ]),
+        ),
+        ok(
+          map([
+            ['b', {}],
+            ['a', { id: 1 }],
+          ]),
+        ),
+      ),
+    ).toBe(true)
+    expect(Result.equals(ok(map([['a', { id: 1 }]])), ok(map([['a', { id: 2 }]])))).toBe(false)
+    expect(Result.equals(ok(new Set([1, { id: 2 }])), ok(new Set([{ id: 2 }, 1])))).toBe(true)
+    expect(Result.equals(ok(new Set([{ id: 1 }])), ok(new Set([{ id: 2 }])))).toBe(false)
+  })
+
+  it('Compares errors by class, name, message, cause and properties', () => {
+    expect(Result.equals(err(new NotFound('user 1')), err(new NotFound('user 1')))).toBe(true)
+    expect(Result.equals(err(new NotFound('user 1')), err(new NotFound('user 2')))).toBe(false)
+    expect(Result.equals<never, Error>(err(new NotFound('user 1')), err(new Error('user 1')))).toBe(
+      false,
+    )
+    expect(
+      Result.equals(
+        err(Object.assign(new Error('oops'), { cause: 'a' })),
+        err(Object.assign(new Error('oops'), { cause: 'b' })),
+      ),
+    ).toBe(false)
+  })
+
+  it('Compares nested Results recursively', () => {
+    expect(Result.equals(ok(ok({ id: 1 })), ok(ok({ id: 1 })))).toBe(true)
+    expect(Result.equals(ok({ user: err('oops') }), ok({ user: err('oops') }))).toBe(true)
+    expect(Result.equals<object, never>(ok({ user: err('oops') }), ok({ user: ok('oops') }))).toBe(
+      false,
+    )
+  })
+
+  it('Handles cycles', () => {
+    type Node = { next?: Node }
+    const a: Node = {}
+    a.next = a
+    const b: Node = {}
+    b.next = b
+
+    expect(Result.equals(ok(a), ok(b))).toBe(true)
+  })
+
+  it('Uses the given equalities', () => {
+    const byId = (a: { id: number }, b: { id: number }) => a.id === b.id
+
+    expect(Result.equals(ok({ id: 1, name: 'a' }), ok({ id: 1, name: 'b' }), { value: byId })).toBe(
+      true,
+    )
+    expect(
+      Result.equals(err('OOPS'), err('oops'), {
+        error: (a, b) => a.toLowerCase() === b.toLowerCase(),
+      }),
+    ).toBe(true)
+  })
+
+  it('Is available as a method', () => {
+    expect(ok({ id: 1 }).equals(ok({ id: 1 }))).toBe(true)
+    expect(err('oops').equals(err('OOPS'))).toBe(false)
+    expect(ok(1).equals(ok(2), { value: () => true })).toBe(true)
+  })
+})
+
+describe('Result.hash', () => {
+  it('Is the same for equal Results', () => {
+    expect(Result.hash(ok({ a: 1, b: [new Date(0)] }))).toBe(
+      Result.hash(ok({ b: [new Date(0)], a: 1 })),
+    )
+    expect(Result.hash(ok(new Set([1, 2])))).toBe(Result.hash(ok(new Set([2, 1]))))
+    expect(
+      Result.hash(
+        ok(
+          new Map([
+            ['a', 1],
+            ['b', 2],
+          ]),
+        ),
+      ),
+    ).toBe(
+      Result.hash(
+        ok(
+          new Map([
+            ['b', 2],
+            ['a', 1],
+          ]),
+        ),
+      ),
+    )
+    expect(Result.hash(err(new NotFound('user 1')))).toBe(Result.hash(err(new NotFound('user 1'))))
+    expect(Result.hash(ok(/a/g))).toBe(Result.hash(ok(/a/g)))
+    expect(Result.hash(ok(new Meters(1)))).toBe(Result.hash(ok(new Meters(1))))
+  })
+
+  it('Differs for different Results', () => {
+    const hashes = [
+      ok(1),
+      ok('1'),
+      err(1),
+      ok([1]),
+      ok({ 0: 1 }),
+      ok(ok(1)),
+      ok(new Set([1])),
+      ok(null),
+      ok(undefined),
+      err(new NotFound('user 1')),
+      err(new NotFound('user 2')),
+      ok(/a/),
+      ok(/b/),
+      ok(/a/i),
+      ok(new Meters(1)),
+      ok(new Feet(1)),
+      ok({ amount: 1 }),
+    ].map((result) => Result.hash(result as Result<unknown, unknown>))
+
+    expect(new Set(hashes).size).toBe(hashes.length)
+  })
+
+  it('Handles cycles', () => {
+    const a: { self?: unknown } = {}
+    a.self = a
+
+    expect(Result.hash(ok(a))).toBe('Ok({"self":[Circular]})')
+  })
+})
@@ -643,6 +643,31 @@ describe('Utils', () => {
 
         expect(result._unsafeUnwrap()).toEqual(['Yooooo', 123, true, [1, 2, 3]])
       })
+
+      it('Fails as soon as one of the async results is an Err value', async () => {
+        const slow = ResultAsync.fromSafePromise<number, string>(new Promise(() => undefined))
+
+        const result = await ResultAsync.combine([slow, errAsync('boooom!')])
+
+        expect(result).toEqual(err('boooom!'))
+      })
+
+      it('Aborts the given controller on the first Err value', async () => {
+        const abortController = new AbortController()
+        const slow = ResultAsync.fromSafePromise<number, string>(new Promise(() => undefined))
+
+        await ResultAsync.combine([slow, errAsync('boooom!')], { abortController })
+
+        expect(abortController.signal.aborted).toBe(true)
+      })
+
+      it('Does not abort the given controller when all are Ok values', async () => {
+        const abortController = new AbortController()
+
+        await ResultAsync.combine([okAsync(1), okAsync(2)], { abortController })
+
+        expect(abortController.signal.aborted).toBe(false)
+      })
     })
   })
   describe('`Result.combineWithAllErrors`', () => {
@@ -740,6 +765,16 @@ describe('Utils', () => {
 
         expect(result._unsafeUnwrap()).toEqual(['Yooooo', 123, true])
       })
+
+      it('Waits for all the async results', async () => {
+        const slow = ResultAsync.fromSafePromise<number, string>(
+          new Promise((resolve) => setTimeout(() => resolve(1), 10)),
+        ).andThen(() => err<number, string>('slow'))
+
+        const result = await ResultAsync.combineWithAllErrors([errAsync('fast'), slow])
+
+        expect(result).toEqual(err(['fast', 'slow']))
+      })
     })
 
     describe('testdouble `ResultAsync.combine`', () => {
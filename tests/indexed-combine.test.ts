@@ -0,0 +1,71 @@
+import { err, errAsync, ok, okAsync, Result, ResultAsync } from '../src'
+
+import { describe, expect, it } from 'vitest'
+
+describe('Result.combineIndexed', () => {
+  it('Combines the values like Result.combine', () => {
+    expect(Result.combineIndexed([ok(1), ok('a')])).toEqual(ok([1, 'a']))
+  })
+
+  it('Fails with the first Err along with its index', () => {
+    const result = Result.combineIndexed([ok(1), err('a'), err('b')])
+
+    expect(result).toEqual(err({ index: 1, error: 'a' }))
+  })
+})
+
+describe('Result.combineWithAllErrorsIndexed', () => {
+  it('Combines the values like Result.combineWithAllErrors', () => {
+    expect(Result.combineWithAllErrorsIndexed([ok(1), ok('a')])).toEqual(ok([1, 'a']))
+  })
+
+  it('Fails with every Err along with its index', () => {
+    const result = Result.combineWithAllErrorsIndexed([err('a'), ok(1), err('b')])
+
+    expect(result).toEqual(
+      err([
+        { index: 0, error: 'a' },
+        { index: 2, error: 'b' },
+      ]),
+    )
+  })
+})
+
+describe('ResultAsync.combineIndexed', () => {
+  it('Fails with the first Err along with its index', async () => {
+    const result = await ResultAsync.combineIndexed([okAsync(1), errAsync('a'), errAsync('b')])
+
+    expect(result).toEqual(err({ index: 1, error: 'a' }))
+  })
+
+  it('Fails as soon as one of the async results is an Err value', async () => {
+    const slow = ResultAsync.fromSafePromise<number, string>(new Promise(() => undefined))
+
+    const result = await ResultAsync.combineIndexed([slow, errAsync('a')])
+
+    expect(result).toEqual(err({ index: 1, error: 'a' }))
+  })
+})
+
+describe('ResultAsync.combineWithAllErrorsIndexed', () => {
+  it('Combines the values like ResultAsync.combineWithAllErrors', async () => {
+    expect(await ResultAsync.combineWithAllErrorsIndexed([okAsync(1), okAsync('a')])).toEqual(
+      ok([1, 'a']),
+    )
+  })
+
+  it('Fails with every Err along with its index', async () => {
+    const result = await ResultAsync.combineWithAllErrorsIndexed([
+      errAsync('a'),
+      okAsync(1),
+      errAsync('b'),
+    ])
+
+    expect(result).toEqual(
+      err([
+        { index: 0, error: 'a' },
+        { index: 2, error: 'b' },
+      ]),
+    )
+  })
+})
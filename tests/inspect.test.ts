@@ -0,0 +1,138 @@
+import { inspect } from 'util'
+
+import {
+  ContextError,
+  err,
+  errAsync,
+  fromPromise,
+  ok,
+  okAsync,
+  ResultAsync,
+  TaggedError,
+} from '../src'
+
+import { describe, expect, it, vi } from 'vitest'
+
+class NotFound extends TaggedError('NotFound') {}
+
+describe('Printing', () => {
+  describe('toString', () => {
+    it('Describes an Ok', () => {
+      expect(ok(1).toString()).toBe('Ok(1)')
+      expect(ok('one').toString()).toBe('Ok("one")')
+      expect(ok({ id: 1 }).toString()).toBe('Ok({"id":1})')
+      expect(`${ok(undefined)}`).toBe('Ok(undefined)')
+    })
+
+    it('Describes an Err', () => {
+      expect(err('oops').toString()).toBe('Err("oops")')
+      expect(err(new NotFound('user 1')).toString()).toBe('Err(NotFound: user 1)')
+    })
+
+    it('Describes nested results like toString', () => {
+      expect(ok(ok(1)).toString()).toBe('Ok(Ok(1))')
+      expect(err([ok('a'), err(2)]).toString()).toBe('Err([Ok("a"),Err(2)])')
+      expect(ok({ user: err('missing') }).toString()).toBe('Ok({"user":Err("missing")})')
+    })
+
+    it('Lists the contents of maps and sets', () => {
+      expect(ok(new Map([[1, { a: 2 }]])).toString()).toBe('Ok(Map {1 => {"a":2}})')
+      expect(ok(new Set(['a', 1])).toString()).toBe('Ok(Set {"a", 1})')
+    })
+
+    it('Describes the values JSON cannot encode', () => {
+      const cyclic: Record<string, unknown> = { id: 1 }
+      cyclic.self = cyclic
+
+      expect(ok({ a: 1n }).toString()).toBe('Ok({"a":1n})')
+      expect(ok(cyclic).toString()).toBe('Ok({"id":1,"self":[Circular]})')
+      expect(ok(new Date(0)).toString()).toBe('Ok("1970-01-01T00:00:00.000Z")')
+      expect(ok(function load() {}).toString()).toBe('Ok([Function load])')
+    })
+
+    it('Describes a ResultAsync along with its result once settled', async () => {
+      const resultAsync = okAsync(1)
+
+      expect(resultAsync.toString()).toBe('ResultAsync(<pending>)')
+      await resultAsync
+      expect(resultAsync.toString()).toBe('ResultAsync(Ok(1))')
+    })
+
+    it('Describes a rejected ResultAsync', async () => {
+      const resultAsync = new ResultAsync(Promise.reject(new Error('boom')))
+
+      await resultAsync.then(undefined, () => undefined)
+      expect(resultAsync.toString()).toBe('ResultAsync(<rejected> Error: boom)')
+    })
+  })
+
+  it('Leaves the rejections of a ResultAsync which is not awaited unhandled', async () => {
+    const bug = new Error('bug')
+    const onUnhandled = vi.fn()
+    const listeners = process.listeners('unhandledRejection')
+    process.removeAllListeners('unhandledRejection')
+    process.on('unhandledRejection', onUnhandled)
+
+    try {
+      okAsync(1).map(() => {
+        throw bug
+      })
+      fromPromise(Promise.reject(bug), { catch: [NotFound] })
+      await new Promise((resolve) => setTimeout(resolve, 10))
+    } finally {
+      process.removeListener('unhandledRejection', onUnhandled)
+      listeners.forEach((listener) => process.on('unhandledRejection', listener))
+    }
+
+    expect(onUnhandled).toHaveBeenCalledTimes(2)
+    expect(onUnhandled).toHaveBeenCalledWith(bug, expect.any(Promise))
+  })
+
+  it('Sets the string tag', () => {
+    expect(Object.prototype.toString.call(ok(1))).toBe('[object Ok]')
+    expect(Object.prototype.toString.call(err(1))).toBe('[object Err]')
+    expect(Object.prototype.toString.call(okAsync(1))).toBe('[object ResultAsync]')
+  })
+
+  describe('util.inspect', () => {
+    it('Inspects the value of an Ok', () => {
+      expect(inspect(ok({ id: 1, tags: ['a'] }))).toBe("Ok({ id: 1, tags: [ 'a' ] })")
+    })
+
+    it('Inspects the error of an Err', () => {
+      expect(inspect(err({ code: 404 }))).toBe('Err({ code: 404 })')
+      expect(inspect(err(new NotFound('user 1')))).toBe('Err(NotFound: user 1)')
+    })
+
+    it('Includes the chain of causes of an Err', () => {
+      const error = new ContextError('loading user 1', new NotFound('user 1'))
+
+      expect(inspect(err(error))).toBe(
+        ['Err(ContextError: loading user 1)', '  Caused by:', '    0: NotFound: user 1'].join('\n'),
+      )
+    })
+
+    it('Inspects nested results', () => {
+      expect(inspect(ok(err('oops')))).toBe("Ok(Err('oops'))")
+      expect(inspect({ result: ok(1) })).toBe('{ result: Ok(1) }')
+    })
+
+    it('Respects the depth', () => {
+      expect(inspect(ok({ a: { b: 1 } }), { depth: 0 })).toBe('Ok([Object])')
+      expect(inspect(ok({ a: { b: 1 } }), { depth: 1 })).toBe('Ok({ a: [Object] })')
+      expect(inspect({ a: { b: ok(1) } }, { depth: 1 })).toBe('{ a: { b: [Ok] } }')
+    })
+
+    it('Colours the output', () => {
+      expect(inspect(ok(1), { colors: true })).toBe('\u001b[32mOk\u001b[39m(\u001b[33m1\u001b[39m)')
+    })
+
+    it('Shows the state of a ResultAsync', async () => {
+      const resultAsync = errAsync('oops')
+
+      expect(inspect(resultAsync)).toBe('ResultAsync { <pending> }')
+      await resultAsync
+      expect(inspect(resultAsync)).toBe("ResultAsync { Err('oops') }")
+    })
+  })
+})
@@ -0,0 +1,135 @@
+import { DecodeError, err, ok, Result, TaggedError } from '../src'
+
+import { describe, expect, it } from 'vitest'
+
+class NotFound extends TaggedError('NotFound') {
+  constructor(readonly id: string, cause?: unknown) {
+    super(`${id} was not found`, { cause })
+  }
+}
+
+const isNumber = (value: unknown): Result<number, string> =>
+  typeof value === 'number' ? ok(value) : err('not a number')
+
+const isString = (value: unknown): Result<string, string> =>
+  typeof value === 'string' ? ok(value) : err('not a string')
+
+describe('toJSON', () => {
+  it('Encodes an Ok', () => {
+    expect(ok({ id: 1 }).toJSON()).toEqual({ type: 'Ok', value: { id: 1 } })
+    expect(JSON.stringify(ok(1))).toBe('{"type":"Ok","value":1}')
+  })
+
+  it('Encodes an Err', () => {
+    expect(err('oops').toJSON()).toEqual({ type: 'Err', error: 'oops' })
+    expect(JSON.stringify(err('oops'))).toBe('{"type":"Err","error":"oops"}')
+  })
+
+  it('Encodes errors with their name, message, cause and own properties', () => {
+    const error = new NotFound('user-1', new TypeError('ECONNRESET'))
+
+    expect(JSON.parse(JSON.stringify(err(error)))).toEqual({
+      type: 'Err',
+      error: {
+        _tag: 'NotFound',
+        id: 'user-1',
+        name: 'NotFound',
+        message: 'user-1 was not found',
+        cause: { name: 'TypeError', message: 'ECONNRESET' },
+      },
+    })
+  })
+
+  it('Encodes the stack only when asked to', () => {
+    const error = new Error('oops')
+
+    expect(Result.toJSON(err(error))).not.toHaveProperty('error.stack')
+    expect(Result.toJSON(err(error), { includeStack: true })).toHaveProperty(
+      'error.stack',
+      error.stack,
+    )
+  })
+
+  it('Encodes nested Results', () => {
+    expect(JSON.parse(JSON.stringify(ok(err(1))))).toEqual({
+      type: 'Ok',
+      value: { type: 'Err', error: 1 },
+    })
+  })
+
+  it('Encodes the errors nested in arrays, objects and error properties', () => {
+    const error = Object.assign(new Error('outer'), { details: [new Error('inner')] })
+
+    expect(JSON.stringify(ok({ inner: new Error('lost') }))).toBe(
+      '{"type":"Ok","value":{"inner":{"name":"Error","message":"lost"}}}',
+    )
+    expect(JSON.parse(JSON.stringify(err([new TypeError('a'), error])))).toEqual({
+      type: 'Err',
+      error: [
+        { name: 'TypeError', message: 'a' },
+        { name: 'Error', message: 'outer', details: [{ name: 'Error', message: 'inner' }] },
+      ],
+    })
+  })
+
+  it('Stops on cyclic arrays and objects', () => {
+    const value: Record<string, unknown> = { id: 1 }
+    value.self = value
+    value.list = [value, 2]
+    const shared = { id: 2 }
+
+    expect(Result.toJSON(ok(value))).toEqual({
+      type: 'Ok',
+      value: { id: 1, list: [undefined, 2] },
+    })
+    expect(Result.toJSON(ok([shared, shared]))).toEqual({ type: 'Ok', value: [shared, shared] })
+  })
+
+  it('Stops on cyclic causes', () => {
+    const error = new Error('oops')
+    Object.assign(error, { cause: error })
+
+    expect(Result.toJSON(err(error))).toEqual({
+      type: 'Err',
+      error: { name: 'Error', message: 'oops' },
+    })
+  })
+})
+
+describe('Result.fromJSON', () => {
+  it('Round-trips an Ok and an Err', () => {
+    expect(Result.fromJSON(JSON.stringify(ok(1)))).toEqual(ok(ok(1)))
+    expect(Result.fromJSON(JSON.stringify(err('oops')))).toEqual(ok(err('oops')))
+    expect(Result.fromJSON(JSON.stringify(ok()))).toEqual(ok(ok(undefined)))
+  })
+
+  it('Accepts already parsed payloads', () => {
+    expect(Result.fromJSON({ type: 'Ok', value: 1 })).toEqual(ok(ok(1)))
+  })
+
+  it('Decodes the value and the error', () => {
+    const decoders = { decodeValue: isNumber, decodeError: isString }
+
+    expect(Result.fromJSON({ type: 'Ok', value: 1 }, decoders)).toEqual(ok(ok(1)))
+    expect(Result.fromJSON({ type: 'Err', error: 'oops' }, decoders)).toEqual(ok(err('oops')))
+  })
+
+  it('Fails with a DecodeError when a decoder fails', () => {
+    const result = Result.fromJSON({ type: 'Ok', value: '1' }, { decodeValue: isNumber })
+
+    const error = result._unsafeUnwrapErr()
+    expect(error).toBeInstanceOf(DecodeError)
+    expect(error.path).toBe('$.value')
+    expect(error.cause).toBe('not a number')
+  })
+
+  it('Fails with a DecodeError on malformed payloads', () => {
+    const pathOf = (input: unknown) => Result.fromJSON(input)._unsafeUnwrapErr().path
+
+    expect(Result.fromJSON('{')._unsafeUnwrapErr()).toBeInstanceOf(DecodeError)
+    expect(pathOf('{')).toBe('$')
+    expect(pathOf(null)).toBe('$')
+    expect(pathOf(42)).toBe('$')
+    expect(pathOf({ success: true, data: 1 })).toBe('$.type')
+  })
+})
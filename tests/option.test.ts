@@ -0,0 +1,198 @@
+import {
+  err,
+  errAsync,
+  none,
+  None,
+  noneAsync,
+  ok,
+  okAsync,
+  Option,
+  OptionAsync,
+  safeTry,
+  some,
+  Some,
+  someAsync,
+} from '../src'
+
+import { vitest, describe, expect, it } from 'vitest'
+
+describe('Option.Some', () => {
+  it('Creates a Some value', () => {
+    const someVal = some(12)
+
+    expect(someVal.isSome()).toBe(true)
+    expect(someVal.isNone()).toBe(false)
+    expect(someVal).toBeInstanceOf(Some)
+  })
+
+  it('Is comparable', () => {
+    expect(some(42)).toEqual(some(42))
+    expect(some(42)).not.toEqual(some(43))
+    expect(some(42)).not.toEqual(none())
+  })
+
+  it('Maps over a Some value', () => {
+    const mapFn = vitest.fn((n: number) => n.toString())
+
+    const mapped = some(12).map(mapFn)
+
+    expect(mapped).toEqual(some('12'))
+    expect(mapFn).toHaveBeenCalledTimes(1)
+  })
+
+  it('Chains with andThen', () => {
+    expect(some(12).andThen((n) => some(n * 2))).toEqual(some(24))
+    expect(some(12).andThen(() => none())).toEqual(none())
+  })
+
+  it('Skips orElse', () => {
+    const orElseFn = vitest.fn(() => some(0))
+
+    expect(some(12).orElse(orElseFn)).toEqual(some(12))
+    expect(orElseFn).not.toHaveBeenCalled()
+  })
+
+  it('Unwraps and matches the value', () => {
+    expect(some(12).unwrapOr(0)).toBe(12)
+    expect(
+      some(12).match(
+        (n) => n + 1,
+        () => 0,
+      ),
+    ).toBe(13)
+  })
+
+  it('Converts into an Ok with okOr', () => {
+    expect(some(12).okOr('missing')).toEqual(ok(12))
+  })
+})
+
+describe('Option.None', () => {
+  it('Creates a None value', () => {
+    const noneVal = none()
+
+    expect(noneVal.isSome()).toBe(false)
+    expect(noneVal.isNone()).toBe(true)
+    expect(noneVal).toBeInstanceOf(None)
+  })
+
+  it('Skips map and andThen', () => {
+    const mapFn = vitest.fn((n: number) => n + 1)
+    const andThenFn = vitest.fn((n: number) => some(n + 1))
+
+    expect(none<number>().map(mapFn)).toEqual(none())
+    expect(none<number>().andThen(andThenFn)).toEqual(none())
+    expect(mapFn).not.toHaveBeenCalled()
+    expect(andThenFn).not.toHaveBeenCalled()
+  })
+
+  it('Recovers with orElse', () => {
+    expect(none<number>().orElse(() => some(1))).toEqual(some(1))
+  })
+
+  it('Unwraps and matches the default', () => {
+    expect(none<number>().unwrapOr(0)).toBe(0)
+    expect(
+      none<number>().match(
+        (n) => n + 1,
+        () => 0,
+      ),
+    ).toBe(0)
+  })
+
+  it('Converts into an Err with okOr', () => {
+    expect(none().okOr('missing')).toEqual(err('missing'))
+  })
+})
+
+describe('Option.fromNullable', () => {
+  it('Wraps present values in a Some', () => {
+    expect(Option.fromNullable(0)).toEqual(some(0))
+    expect(Option.fromNullable('')).toEqual(some(''))
+  })
+
+  it('Maps null and undefined to None', () => {
+    expect(Option.fromNullable(null)).toEqual(none())
+    expect(Option.fromNullable(undefined)).toEqual(none())
+  })
+})
+
+describe('Result to Option conversions', () => {
+  it('Converts an Ok with ok() and err()', () => {
+    expect(ok(12).ok()).toEqual(some(12))
+    expect(ok(12).err()).toEqual(none())
+  })
+
+  it('Converts an Err with ok() and err()', () => {
+    expect(err('oops').ok()).toEqual(none())
+    expect(err('oops').err()).toEqual(some('oops'))
+  })
+
+  it('Converts a ResultAsync with ok() and err()', async () => {
+    const okOption = okAsync(12).ok()
+    const errOption = errAsync('oops').err()
+
+    expect(okOption).toBeInstanceOf(OptionAsync)
+    expect(await okOption).toEqual(some(12))
+    expect(await errOption).toEqual(some('oops'))
+    expect(await errAsync('oops').ok()).toEqual(none())
+  })
+})
+
+describe('OptionAsync', () => {
+  it('Is awaitable to an Option', async () => {
+    expect(await someAsync(12)).toEqual(some(12))
+    expect(await noneAsync()).toEqual(none())
+  })
+
+  it('Maps with sync and async functions', async () => {
+    expect(await someAsync(12).map((n) => n + 1)).toEqual(some(13))
+    expect(await someAsync(12).map(async (n) => n + 1)).toEqual(some(13))
+    expect(await noneAsync<number>().map((n) => n + 1)).toEqual(none())
+  })
+
+  it('Chains with andThen over Option and OptionAsync', async () => {
+    expect(await someAsync(12).andThen((n) => some(n * 2))).toEqual(some(24))
+    expect(await someAsync(12).andThen((n) => someAsync(n * 2))).toEqual(some(24))
+    expect(await someAsync(12).andThen(() => noneAsync())).toEqual(none())
+  })
+
+  it('Recovers with orElse', async () => {
+    expect(await noneAsync<number>().orElse(() => someAsync(1))).toEqual(some(1))
+    expect(await someAsync(12).orElse(() => some(1))).toEqual(some(12))
+  })
+
+  it('Unwraps, matches and converts to a ResultAsync', async () => {
+    expect(await noneAsync<number>().unwrapOr(0)).toBe(0)
+    expect(
+      await someAsync(12).match(
+        (n) => n + 1,
+        () => 0,
+      ),
+    ).toBe(13)
+    expect(await noneAsync().okOr('missing')).toEqual(err('missing'))
+  })
+})
+
+describe('safeTry with Option', () => {
+  it('Returns the returned Option', () => {
+    const res = safeTry(function* () {
+      return some((yield* some(1)) + (yield* some(2)))
+    })
+
+    expect(res).toEqual(some(3))
+  })
+
+  it('Returns None on the first yielded None', () => {
+    const after = vitest.fn()
+
+    const res = safeTry(function* () {
+      const value = yield* Option.fromNullable<number>(null)
+      after()
+      return some(value)
+    })
+
+    expect(res).toEqual(none())
+    expect(after).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,44 @@
+import { err, errAsync, ok, okAsync, Result, ResultAsync } from '../src'
+
+import { describe, expect, it } from 'vitest'
+
+describe('Result.partition', () => {
+  it('Splits the values from the errors, in the order of the list', () => {
+    const results: Result<number, string>[] = [ok(1), err('a'), ok(2), err('b')]
+
+    expect(Result.partition(results)).toEqual([
+      [1, 2],
+      ['a', 'b'],
+    ])
+  })
+
+  it('Returns two empty lists when there are no Results', () => {
+    expect(Result.partition([])).toEqual([[], []])
+  })
+})
+
+describe('ResultAsync.settle', () => {
+  it('Succeeds with every Result along with its index', async () => {
+    const result = await ResultAsync.settle([okAsync(1), errAsync('oops'), okAsync(2)])
+
+    expect(result).toEqual(
+      ok([
+        { index: 0, result: ok(1) },
+        { index: 1, result: err('oops') },
+        { index: 2, result: ok(2) },
+      ]),
+    )
+  })
+
+  it('Keeps the order of the list whatever the order of settlement', async () => {
+    const delayed = (ms: number) =>
+      ResultAsync.fromSafePromise<number, never>(
+        new Promise((resolve) => setTimeout(() => resolve(ms), ms)),
+      )
+
+    const result = await ResultAsync.settle([delayed(20), delayed(10)])
+
+    expect(result._unsafeUnwrap().map(({ index }) => index)).toEqual([0, 1])
+    expect(result._unsafeUnwrap().map(({ result }) => result)).toEqual([ok(20), ok(10)])
+  })
+})
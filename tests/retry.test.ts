@@ -0,0 +1,124 @@
+import { err, errAsync, ok, okAsync, ResultAsync } from '../src'
+
+import { vitest, describe, expect, it } from 'vitest'
+
+// Replaces the timers, recording every requested delay
+const createSleep = () => {
+  const delays: number[] = []
+  const sleep = vitest.fn(async (ms: number) => {
+    delays.push(ms)
+  })
+  return { delays, sleep }
+}
+
+// Fails with the given errors one after the other, then succeeds
+const failingWith = <E>(...errors: E[]) =>
+  vitest.fn((attempt: number) =>
+    attempt <= errors.length ? errAsync<string, E>(errors[attempt - 1]) : okAsync<string, E>('done'),
+  )
+
+describe('ResultAsync.retry', () => {
+  it('Does not retry an Ok', async () => {
+    const { sleep } = createSleep()
+    const operation = failingWith<string>()
+
+    expect(await ResultAsync.retry(operation, { attempts: 3, sleep })).toEqual(ok('done'))
+    expect(operation).toHaveBeenCalledTimes(1)
+    expect(sleep).not.toHaveBeenCalled()
+  })
+
+  it('Retries until the operation succeeds', async () => {
+    const { sleep } = createSleep()
+    const operation = failingWith('first', 'second')
+
+    expect(await ResultAsync.retry(operation, { attempts: 3, sleep })).toEqual(ok('done'))
+    expect(operation.mock.calls).toEqual([[1], [2], [3]])
+  })
+
+  it('Fails with the last error once attempts are exhausted', async () => {
+    const { sleep } = createSleep()
+    const operation = failingWith('first', 'second', 'third')
+
+    expect(await ResultAsync.retry(operation, { attempts: 2, sleep })).toEqual(err('second'))
+    expect(operation).toHaveBeenCalledTimes(2)
+  })
+
+  it('Fails with the errors of all attempts when collecting them', async () => {
+    const { sleep } = createSleep()
+    const operation = failingWith('first', 'second', 'third')
+
+    const result = await ResultAsync.retry(operation, { attempts: 3, sleep, collectErrors: true })
+
+    expect(result).toEqual(err(['first', 'second', 'third']))
+  })
+
+  it('Stops retrying when retryIf rejects the error', async () => {
+    const { sleep } = createSleep()
+    const operation = failingWith('transient', 'fatal', 'transient')
+
+    const result = await ResultAsync.retry(operation, {
+      attempts: 5,
+      sleep,
+      retryIf: (e) => e === 'transient',
+    })
+
+    expect(result).toEqual(err('fatal'))
+    expect(operation).toHaveBeenCalledTimes(2)
+  })
+
+  it('Waits according to the backoff policy', async () => {
+    const run = async (options: Parameters<typeof ResultAsync.retry>[1]) => {
+      const { delays, sleep } = createSleep()
+      await ResultAsync.retry(failingWith(1, 2, 3, 4), { ...options, sleep })
+      return delays
+    }
+
+    expect(await run({ attempts: 5 })).toEqual([100, 200, 400, 800])
+    expect(await run({ attempts: 5, backoff: 'exponential', delayMs: 10 })).toEqual([
+      10,
+      20,
+      40,
+      80,
+    ])
+    expect(await run({ attempts: 5, backoff: 'linear', delayMs: 10 })).toEqual([10, 20, 30, 40])
+    expect(await run({ attempts: 5, backoff: 'constant', delayMs: 10 })).toEqual([10, 10, 10, 10])
+    expect(await run({ attempts: 5, backoff: (attempt) => attempt * 3 })).toEqual([3, 6, 9, 12])
+    expect(await run({ attempts: 5, delayMs: 10, maxDelayMs: 30 })).toEqual([10, 20, 30, 30])
+    expect(await run({ attempts: 5, delayMs: 10, jitter: true, random: () => 0.5 })).toEqual([
+      5,
+      10,
+      20,
+      40,
+    ])
+  })
+
+  it('Calls onRetry before each wait', async () => {
+    const { sleep } = createSleep()
+    const onRetry = vitest.fn()
+
+    await ResultAsync.retry(failingWith('first', 'second'), {
+      attempts: 3,
+      delayMs: 10,
+      sleep,
+      onRetry,
+    })
+
+    expect(onRetry.mock.calls).toEqual([
+      ['first', 1, 10],
+      ['second', 2, 20],
+    ])
+  })
+
+  it('Waits with setTimeout by default', async () => {
+    vitest.useFakeTimers()
+    try {
+      const result = ResultAsync.retry(failingWith('first'), { attempts: 2, delayMs: 1000 })
+
+      await vitest.advanceTimersByTimeAsync(1000)
+
+      expect(await result).toEqual(ok('done'))
+    } finally {
+      vitest.useRealTimers()
+    }
+  })
+})
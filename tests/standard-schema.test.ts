@@ -0,0 +1,67 @@
+import { err, ok, Result, ResultAsync, SchemaError, StandardSchemaV1 } from '../src'
+
+import { describe, expect, it } from 'vitest'
+
+// A minimal schema implementing the Standard Schema interface, like the ones
+// provided by zod, valibot or arktype
+const numberSchema: StandardSchemaV1<unknown, number> = {
+  '~standard': {
+    version: 1,
+    vendor: 'test',
+    validate: (value) =>
+      typeof value === 'number'
+        ? { value }
+        : { issues: [{ message: 'Expected a number', path: ['user', { key: 'age' }, 0] }] },
+  },
+}
+
+const asyncNumberSchema: StandardSchemaV1<unknown, number> = {
+  '~standard': {
+    version: 1,
+    vendor: 'test',
+    validate: async (value) => numberSchema['~standard'].validate(value),
+  },
+}
+
+describe('Result.fromSchema', () => {
+  it('Returns the output of a valid input', () => {
+    expect(Result.fromSchema(numberSchema, 42)).toEqual(ok(42))
+  })
+
+  it('Returns the issues of an invalid input', () => {
+    const error = Result.fromSchema(numberSchema, '42')._unsafeUnwrapErr()
+
+    expect(error).toBeInstanceOf(SchemaError)
+    expect(error._tag).toBe('SchemaError')
+    expect(error.message).toBe('Expected a number')
+    expect(error.issues).toEqual([{ message: 'Expected a number', path: ['user', 'age', 0] }])
+  })
+
+  it('Defaults the issue path to the root', () => {
+    const schema: StandardSchemaV1<unknown, never> = {
+      '~standard': { version: 1, vendor: 'test', validate: () => ({ issues: [{ message: 'No' }] }) },
+    }
+
+    expect(Result.fromSchema(schema, 1)).toEqual(err(new SchemaError([{ message: 'No', path: [] }])))
+  })
+
+  it('Throws when the schema validates asynchronously', () => {
+    expect(() => Result.fromSchema(asyncNumberSchema, 42)).toThrow(TypeError)
+  })
+})
+
+describe('ResultAsync.fromSchema', () => {
+  it('Validates with sync and async schemas', async () => {
+    expect(ResultAsync.fromSchema(asyncNumberSchema, 42)).toBeInstanceOf(ResultAsync)
+    expect(await ResultAsync.fromSchema(asyncNumberSchema, 42)).toEqual(ok(42))
+    expect(await ResultAsync.fromSchema(numberSchema, 42)).toEqual(ok(42))
+  })
+
+  it('Returns the issues of an invalid input', async () => {
+    const result = await ResultAsync.fromSchema(asyncNumberSchema, '42')
+
+    expect(result._unsafeUnwrapErr().issues).toEqual([
+      { message: 'Expected a number', path: ['user', 'age', 0] },
+    ])
+  })
+})
@@ -0,0 +1,98 @@
+import { err, errAsync, ok, okAsync, Result, ResultAsync, TaggedError } from '../src'
+
+import { vitest, describe, expect, it } from 'vitest'
+
+class NotFound extends TaggedError('NotFound') {
+  constructor(readonly id: string) {
+    super(`${id} was not found`)
+  }
+}
+
+class Conflict extends TaggedError('Conflict') {}
+
+class DbDown extends TaggedError('DbDown') {}
+
+type AppError = NotFound | Conflict | DbDown
+
+describe('TaggedError', () => {
+  it('Creates Error subclasses carrying a literal tag', () => {
+    const error = new NotFound('user-1')
+
+    expect(error).toBeInstanceOf(Error)
+    expect(error).toBeInstanceOf(NotFound)
+    expect(error._tag).toBe('NotFound')
+    expect(error.name).toBe('NotFound')
+    expect(error.message).toBe('user-1 was not found')
+    expect(error.id).toBe('user-1')
+  })
+
+  it('Keeps the cause', () => {
+    const cause = new Error('ECONNRESET')
+
+    expect(new DbDown('database is down', { cause }).cause).toBe(cause)
+  })
+})
+
+describe('catchTag', () => {
+  it('Handles the Err carrying the given tag', () => {
+    const result: Result<string, AppError> = err(new NotFound('user-1'))
+    const handler = vitest.fn((e: NotFound) => ok(`default for ${e.id}`))
+
+    expect(result.catchTag('NotFound', handler)).toEqual(ok('default for user-1'))
+    expect(handler).toHaveBeenCalledTimes(1)
+  })
+
+  it('Leaves errors carrying another tag untouched', () => {
+    const error = new Conflict()
+    const result: Result<string, AppError> = err(error)
+    const handler = vitest.fn(() => ok('default'))
+
+    expect(result.catchTag('NotFound', handler)).toEqual(err(error))
+    expect(handler).not.toHaveBeenCalled()
+  })
+
+  it('Leaves Ok values untouched', () => {
+    const result: Result<string, AppError> = ok('user')
+    const handler = vitest.fn(() => ok('default'))
+
+    expect(result.catchTag('NotFound', handler)).toEqual(ok('user'))
+    expect(handler).not.toHaveBeenCalled()
+  })
+
+  it('Handles the tag of a ResultAsync with sync and async handlers', async () => {
+    const result: ResultAsync<string, AppError> = errAsync(new NotFound('user-1'))
+
+    expect(await result.catchTag('NotFound', () => ok('sync'))).toEqual(ok('sync'))
+    expect(await result.catchTag('NotFound', () => okAsync('async'))).toEqual(ok('async'))
+    expect(await result.catchTag('Conflict', () => ok('conflict'))).toEqual(
+      err(new NotFound('user-1')),
+    )
+  })
+})
+
+describe('matchTag', () => {
+  const handlers = {
+    NotFound: (e: NotFound) => `missing ${e.id}`,
+    Conflict: () => 'conflict',
+    DbDown: () => 'down',
+  }
+
+  it('Calls the ok handler on an Ok', () => {
+    const result: Result<string, AppError> = ok('user')
+
+    expect(result.matchTag((v) => `found ${v}`, handlers)).toBe('found user')
+  })
+
+  it('Calls the handler of the tag on an Err', () => {
+    const result: Result<string, AppError> = err(new NotFound('user-1'))
+
+    expect(result.matchTag((v) => `found ${v}`, handlers)).toBe('missing user-1')
+  })
+
+  it('Matches the tag of a ResultAsync', async () => {
+    const result: ResultAsync<string, AppError> = errAsync(new DbDown())
+
+    expect(await result.matchTag((v) => `found ${v}`, handlers)).toBe('down')
+    expect(await okAsync<string, AppError>('user').matchTag((v) => v, handlers)).toBe('user')
+  })
+})
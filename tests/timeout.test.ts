@@ -0,0 +1,92 @@
+import { err, errAsync, fromPromise, ok, okAsync, ResultAsync, TimeoutError } from '../src'
+
+import { afterEach, beforeEach, describe, expect, it, vitest } from 'vitest'
+
+const never = <T>() => new Promise<T>(() => undefined)
+
+describe('ResultAsync.timeout', () => {
+  beforeEach(() => {
+    vitest.useFakeTimers()
+  })
+
+  afterEach(() => {
+    vitest.useRealTimers()
+  })
+
+  it('Keeps the Result settled before the deadline', async () => {
+    expect(await okAsync(1).timeout(100)).toEqual(ok(1))
+    expect(await errAsync('oops').timeout(100)).toEqual(err('oops'))
+    expect(vitest.getTimerCount()).toBe(0)
+  })
+
+  it('Fails with a TimeoutError when the deadline passes', async () => {
+    const result = new ResultAsync(never()).timeout(100)
+
+    await vitest.advanceTimersByTimeAsync(100)
+
+    const error = (await result)._unsafeUnwrapErr()
+    expect(error).toBeInstanceOf(TimeoutError)
+    expect(error).toMatchObject({ _tag: 'TimeoutError', timeoutMs: 100 })
+  })
+
+  it('Fails with the error created by onTimeout', async () => {
+    const result = new ResultAsync(never()).timeout(100, () => 'too slow')
+
+    await vitest.advanceTimersByTimeAsync(100)
+
+    expect(await result).toEqual(err('too slow'))
+  })
+
+  it('Aborts the given controller when the deadline passes', async () => {
+    const abortController = new AbortController()
+    const result = new ResultAsync(never()).timeout(100, { abortController })
+
+    await vitest.advanceTimersByTimeAsync(99)
+    expect(abortController.signal.aborted).toBe(false)
+
+    await vitest.advanceTimersByTimeAsync(1)
+    expect(abortController.signal.aborted).toBe(true)
+    expect((await result)._unsafeUnwrapErr()).toBeInstanceOf(TimeoutError)
+  })
+
+  it('Does not abort when the Result settles in time', async () => {
+    const abortController = new AbortController()
+
+    await okAsync(1).timeout(100, { abortController })
+    await vitest.advanceTimersByTimeAsync(100)
+
+    expect(abortController.signal.aborted).toBe(false)
+  })
+})
+
+describe('ResultAsync.fromPromise with timeoutMs', () => {
+  beforeEach(() => {
+    vitest.useFakeTimers()
+  })
+
+  afterEach(() => {
+    vitest.useRealTimers()
+  })
+
+  it('Resolves or rejects as usual before the deadline', async () => {
+    const toError = (e: unknown) => `mapped ${e}`
+
+    expect(await fromPromise(Promise.resolve(1), toError, { timeoutMs: 100 })).toEqual(ok(1))
+    expect(await fromPromise(Promise.reject('oops'), toError, { timeoutMs: 100 })).toEqual(
+      err('mapped oops'),
+    )
+    expect(vitest.getTimerCount()).toBe(0)
+  })
+
+  it('Fails with a TimeoutError when the deadline passes', async () => {
+    const abortController = new AbortController()
+    const toError = vitest.fn((e: unknown) => e)
+    const result = ResultAsync.fromPromise(never(), toError, { timeoutMs: 50, abortController })
+
+    await vitest.advanceTimersByTimeAsync(50)
+
+    expect((await result)._unsafeUnwrapErr()).toBeInstanceOf(TimeoutError)
+    expect(toError).not.toHaveBeenCalled()
+    expect(abortController.signal.aborted).toBe(true)
+  })
+})
@@ -0,0 +1,210 @@
+import { err, errAsync, ok, okAsync, Result, ResultAsync } from '../src'
+
+import { describe, expect, it, vitest } from 'vitest'
+
+const deferred = <T>() => {
+  let resolve: (value: T) => void = () => undefined
+  const promise = new Promise<T>((r) => {
+    resolve = r
+  })
+  return { promise, resolve }
+}
+
+const flush = () => new Promise((resolve) => setTimeout(resolve, 0))
+
+describe('ResultAsync.traverse', () => {
+  it('Combines the values in the order of the items', async () => {
+    const delays = [30, 10, 20]
+
+    const result = await ResultAsync.traverse(delays, (ms, index) =>
+      ResultAsync.fromSafePromise(
+        new Promise<number>((resolve) => setTimeout(() => resolve(index), ms)),
+      ),
+    )
+
+    expect(result).toEqual(ok([0, 1, 2]))
+  })
+
+  it('Succeeds with an empty list when there are no items', async () => {
+    expect(await ResultAsync.traverse([], () => okAsync(1))).toEqual(ok([]))
+  })
+
+  it('Runs at most `concurrency` ResultAsyncs at the same time', async () => {
+    const pending = [deferred<number>(), deferred<number>(), deferred<number>()]
+    const f = vitest.fn((index: number) => ResultAsync.fromSafePromise(pending[index].promise))
+
+    const result = ResultAsync.traverse([0, 1, 2], f, { concurrency: 2 })
+
+    await flush()
+    expect(f).toHaveBeenCalledTimes(2)
+
+    pending[1].resolve(1)
+    await flush()
+    expect(f).toHaveBeenCalledTimes(3)
+
+    pending[0].resolve(0)
+    pending[2].resolve(2)
+    expect(await result).toEqual(ok([0, 1, 2]))
+  })
+
+  it('Fails with the first Err and stops calling f', async () => {
+    const f = vitest.fn((n: number) => (n === 1 ? errAsync(`failed ${n}`) : okAsync(n)))
+
+    const result = await ResultAsync.traverse([0, 1, 2, 3], f, { concurrency: 1 })
+
+    expect(result).toEqual(err('failed 1'))
+    expect(f).toHaveBeenCalledTimes(2)
+  })
+
+  it('Does not wait for the pending ResultAsyncs after the first Err', async () => {
+    const never = new Promise<number>(() => undefined)
+
+    const result = await ResultAsync.traverse([0, 1], (n) =>
+      n === 0 ? ResultAsync.fromSafePromise(never) : errAsync('oops'),
+    )
+
+    expect(result).toEqual(err('oops'))
+  })
+
+  it('Rejects when f throws', async () => {
+    const result = ResultAsync.traverse([0], () => {
+      throw new Error('boom')
+    })
+
+    await expect(result).rejects.toThrow('boom')
+  })
+
+  it('Throws a RangeError when concurrency is below 1', () => {
+    const f = vitest.fn(okAsync)
+
+    expect(() => ResultAsync.traverse([0], f, { concurrency: 0 })).toThrow(RangeError)
+    expect(() => ResultAsync.traverseWithAllErrors([0], f, { concurrency: 0 })).toThrow(
+      'concurrency must be at least 1, got 0',
+    )
+    expect(() => ResultAsync.traverse([0], f, { concurrency: NaN })).toThrow(RangeError)
+    expect(f).not.toHaveBeenCalled()
+  })
+})
+
+describe('ResultAsync.traverseWithAllErrors', () => {
+  it('Combines the values in the order of the items', async () => {
+    const result = await ResultAsync.traverseWithAllErrors([1, 2, 3], (n) => okAsync(n * 2), {
+      concurrency: 2,
+    })
+
+    expect(result).toEqual(ok([2, 4, 6]))
+  })
+
+  it('Calls f on all the items and collects the errors in order', async () => {
+    const f = vitest.fn((n: number) =>
+      n % 2 === 0
+        ? okAsync(n)
+        : ResultAsync.fromPromise(
+            new Promise<number>((_, reject) => setTimeout(() => reject(n), 10 - n)),
+            (e) => `failed ${e}`,
+          ),
+    )
+
+    const result = await ResultAsync.traverseWithAllErrors([0, 1, 2, 3, 4, 5], f, {
+      concurrency: 3,
+    })
+
+    expect(result).toEqual(err(['failed 1', 'failed 3', 'failed 5']))
+    expect(f).toHaveBeenCalledTimes(6)
+  })
+})
+
+describe('Result.traverse', () => {
+  it('Combines the values of any iterable', () => {
+    const double = (n: number) => ok(n * 2)
+
+    expect(Result.traverse([1, 2], double)).toEqual(ok([2, 4]))
+    expect(Result.traverse(new Set([1, 2]), double)).toEqual(ok([2, 4]))
+    expect(Result.traverse(new Map([['a', 1]]), ([key, n]) => ok(`${key}${n}`))).toEqual(ok(['a1']))
+  })
+
+  it('Stops calling f at the first Err', () => {
+    const f = vitest.fn((n: number) => (n > 1 ? err(`too big: ${n}`) : ok(n)))
+
+    expect(Result.traverse([0, 1, 2, 3], f)).toEqual(err('too big: 2'))
+    expect(f).toHaveBeenCalledTimes(3)
+  })
+
+  it('Stops pulling from a generator at the first Err', () => {
+    const pulled: number[] = []
+    function* naturals() {
+      for (let n = 0; ; n++) {
+        pulled.push(n)
+        yield n
+      }
+    }
+
+    expect(Result.traverse(naturals(), (n) => (n < 2 ? ok(n) : err(n)))).toEqual(err(2))
+    expect(pulled).toEqual([0, 1, 2])
+  })
+
+  it('Passes the index of each item', () => {
+    expect(Result.traverse(['a', 'b'], (item, index) => ok(`${index}:${item}`))).toEqual(
+      ok(['0:a', '1:b']),
+    )
+  })
+})
+
+describe('ResultAsync.traverseSeq', () => {
+  it('Runs the steps one after another, in order', async () => {
+    const log: string[] = []
+    const step = (ms: number) =>
+      ResultAsync.fromSafePromise(
+        new Promise<number>((resolve) =>
+          setTimeout(() => {
+            log.push(`done ${ms}`)
+            resolve(ms)
+          }, ms),
+        ),
+      )
+
+    const result = await ResultAsync.traverseSeq([20, 10, 0], (ms) => {
+      log.push(`start ${ms}`)
+      return step(ms)
+    })
+
+    expect(result).toEqual(ok([20, 10, 0]))
+    expect(log).toEqual(['start 20', 'done 20', 'start 10', 'done 10', 'start 0', 'done 0'])
+  })
+
+  it('Accepts synchronous Results', async () => {
+    expect(await ResultAsync.traverseSeq(new Set([1, 2]), (n) => ok(n + 1))).toEqual(ok([2, 3]))
+  })
+
+  it('Stops at the first Err', async () => {
+    const f = vitest.fn((n: number) => (n === 1 ? errAsync('oops') : okAsync(n)))
+
+    expect(await ResultAsync.traverseSeq([0, 1, 2], f)).toEqual(err('oops'))
+    expect(f).toHaveBeenCalledTimes(2)
+  })
+
+  it('Accepts async iterables', async () => {
+    let closed = false
+    async function* pages() {
+      try {
+        yield 1
+        yield 2
+        yield 3
+      } finally {
+        closed = true
+      }
+    }
+
+    expect(await ResultAsync.traverseSeq(pages(), (n) => okAsync(n * 10))).toEqual(ok([10, 20, 30]))
+    expect(await ResultAsync.traverseSeq(pages(), (n) => (n < 2 ? ok(n) : err(n)))).toEqual(err(2))
+    expect(closed).toBe(true)
+  })
+
+  it('Does not unwrap promises yielded by a synchronous iterable', async () => {
+    const promise = Promise.resolve(1)
+
+    const result = await ResultAsync.traverseSeq([promise], (item) => ok(item === promise))
+
+    expect(result).toEqual(ok([true]))
+  })
+})
@@ -0,0 +1,87 @@
+import { err, Err, ok, Ok, Result, ResultAsync } from '../src'
+
+import { describe, expect, it, vi } from 'vitest'
+
+const oops = new Error('oops')
+
+describe('Result.try', () => {
+  it('Returns an Ok with what the function returns', () => {
+    expect(Result.try(() => JSON.parse('{"a":1}'))).toEqual(ok({ a: 1 }))
+  })
+
+  it('Returns an Err with what the function throws', () => {
+    const result = Result.try(() => {
+      throw oops
+    })
+
+    expect(result).toBeInstanceOf(Err)
+    expect(result).toEqual(err(oops))
+  })
+
+  it('Maps the thrown error', () => {
+    const result = Result.try(
+      () => JSON.parse('{'),
+      (e) => `parse error: ${(e as Error).name}`,
+    )
+
+    expect(result).toEqual(err('parse error: SyntaxError'))
+  })
+
+  it('Runs the function immediately', () => {
+    const fn = vi.fn(() => 1)
+
+    Result.try(fn)
+
+    expect(fn).toHaveBeenCalledTimes(1)
+  })
+
+  it('Returns a ResultAsync when the function returns a promise', async () => {
+    const result = Result.try(async () => 1)
+
+    expect(result).toBeInstanceOf(ResultAsync)
+    expect(await result).toEqual(ok(1))
+  })
+
+  it('Fails when the returned promise rejects', async () => {
+    const result = Result.try(
+      () => Promise.reject(oops),
+      (e) => (e as Error).message,
+    )
+
+    expect(await result).toEqual(err('oops'))
+  })
+})
+
+describe('ResultAsync.try', () => {
+  it('Succeeds with what the function resolves to', async () => {
+    expect(await ResultAsync.try(async () => 1)).toEqual(ok(1))
+  })
+
+  it('Accepts functions returning a value', async () => {
+    expect(await ResultAsync.try(() => 1)).toEqual(ok(1))
+  })
+
+  it('Fails when the function rejects', async () => {
+    expect(await ResultAsync.try(() => Promise.reject(oops))).toEqual(err(oops))
+  })
+
+  it('Fails when the function throws synchronously', async () => {
+    const result = ResultAsync.try(
+      (): Promise<number> => {
+        throw oops
+      },
+      (e) => ({ cause: e }),
+    )
+
+    expect(await result).toEqual(err({ cause: oops }))
+  })
+
+  it('Runs the function immediately', async () => {
+    const fn = vi.fn(async () => 1)
+
+    const result = ResultAsync.try(fn)
+
+    expect(fn).toHaveBeenCalledTimes(1)
+    expect(await result).toBeInstanceOf(Ok)
+  })
+})
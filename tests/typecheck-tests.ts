@@ -5,13 +5,32 @@
  */
 
 import {
+  AbortedError,
+  DecodeError,
+  Decoder,
+  Defect,
   err,
   errAsync,
+  FromPromiseOptions,
   fromSafePromise,
+  IndexedError,
+  NonEmptyArray,
+  none,
   ok,
+  Ok,
   okAsync,
+  Option,
+  OptionAsync,
   Result,
   ResultAsync,
+  SchemaError,
+  SerializedError,
+  SerializedResult,
+  SettledResult,
+  some,
+  StandardSchemaV1,
+  TaggedError,
+  TimeoutError,
 } from '../src'
 import { safeTry, Transpose } from '../src/result'
 import { type N, Test } from 'ts-toolbelt'
@@ -2397,6 +2416,644 @@ type CreateTuple<L, V = string> =
   });
 });
 
+(function describe(_ = 'Option') {
+  (function it(_ = 'narrows an Option with isSome and isNone') {
+    const option: Option<number> = input<Option<number>>()
+
+    if (option.isNone()) {
+      const unreachable: Option<number> = option
+    } else {
+      const value: number = option.value
+    }
+  });
+
+  (function it(_ = 'converts a Result into Options of its value and error') {
+    const result = input<Result<number, string>>()
+
+    Test.checks([
+      Test.check<ReturnType<typeof result.ok>, Option<number>, Test.Pass>(),
+      Test.check<ReturnType<typeof result.err>, Option<string>, Test.Pass>(),
+    ])
+  });
+
+  (function it(_ = 'converts a ResultAsync into OptionAsyncs of its value and error') {
+    const result = input<ResultAsync<number, string>>()
+
+    Test.checks([
+      Test.check<ReturnType<typeof result.ok>, OptionAsync<number>, Test.Pass>(),
+      Test.check<ReturnType<typeof result.err>, OptionAsync<string>, Test.Pass>(),
+    ])
+  });
+
+  (function it(_ = 'infers the Option type from a safeTry generator') {
+    type Expectation = Option<string>
+
+    const option = safeTry(function *() {
+      const value = yield* some(1)
+      const other = yield* none<number>()
+      return some(`${value + other}`)
+    })
+    Test.checks([
+      Test.check<typeof option, Expectation, Test.Pass>(),
+    ])
+  });
+});
+
+(function describe(_ = 'Tagged errors') {
+  class NotFound extends TaggedError('NotFound') {}
+  class Conflict extends TaggedError('Conflict') {}
+  class DbDown extends TaggedError('DbDown') {}
+
+  (function describe(_ = 'catchTag') {
+    (function it(_ = 'removes the handled tag from the error union') {
+      type Expectation = Result<string | number, Conflict | DbDown>
+
+      const result = input<Result<string, NotFound | Conflict | DbDown>>()
+        .catchTag('NotFound', (e) => ok<number, never>(e.message.length))
+      Test.checks([
+        Test.check<typeof result, Expectation, Test.Pass>(),
+      ])
+    });
+
+    (function it(_ = 'adds the error type of the handler') {
+      type Expectation = ResultAsync<string, Conflict | DbDown>
+
+      const result = input<ResultAsync<string, NotFound | Conflict>>()
+        .catchTag('NotFound', () => errAsync<string, DbDown>(new DbDown()))
+      Test.checks([
+        Test.check<typeof result, Expectation, Test.Pass>(),
+      ])
+    });
+
+    (function it(_ = 'rejects tags absent from the error union') {
+      input<Result<string, NotFound | Conflict>>()
+        // @ts-expect-error -- `DbDown` is not part of the error union
+        .catchTag('DbDown', () => ok('default'))
+    });
+  });
+
+  (function describe(_ = 'matchTag') {
+    (function it(_ = 'combines the return types of all handlers') {
+      type Expectation = string | number | boolean
+
+      const result = input<Result<string, NotFound | Conflict>>().matchTag((v) => v, {
+        NotFound: (e) => e.message.length,
+        Conflict: () => false,
+      })
+      Test.checks([
+        Test.check<typeof result, Expectation, Test.Pass>(),
+      ])
+    });
+
+    (function it(_ = 'fails to compile when a tag is unhandled') {
+      input<Result<string, NotFound | Conflict>>().matchTag((v) => v, 
+        // @ts-expect-error -- `Conflict` is not handled
+        { NotFound: () => 'missing' },
+      )
+    });
+
+    (function it(_ = 'fails to compile when the error union is not tagged') {
+      input<Result<string, NotFound | string>>().matchTag((v) => v, 
+        // @ts-expect-error -- `string` has no tag
+        { NotFound: () => 'missing' },
+      )
+    });
+  });
+});
+
+(function describe(_ = 'JSON') {
+  (function it(_ = 'infers the decoded types of Result.fromJSON') {
+    type Expectation = Result<Result<number, string>, DecodeError>
+
+    const result = Result.fromJSON('{}', {
+      decodeValue: (value) => ok<number, string>(Number(value)),
+      decodeError: (error) => ok<string, string>(String(error)),
+    })
+    Test.checks([
+      Test.check<typeof result, Expectation, Test.Pass>(),
+    ])
+  });
+
+  (function it(_ = 'encodes errors as SerializedErrors') {
+    type Expectation = SerializedResult<number, TypeError>
+
+    const serialized = input<Result<number, TypeError>>().toJSON()
+    const error = serialized.type === 'Err' ? serialized.error.message : ''
+    Test.checks([
+      Test.check<typeof serialized, Expectation, Test.Pass>(),
+    ])
+  });
+
+  (function it(_ = 'encodes the errors nested in arrays and objects') {
+    type Expectation = SerializedResult<{ inner: Error; list: TypeError[] }, [Error, string]>
+
+    const serialized = input<Result<{ inner: Error; list: TypeError[] }, [Error, string]>>().toJSON()
+    const value = serialized.type === 'Ok' ? serialized.value : input<never>()
+    const error = serialized.type === 'Err' ? serialized.error : input<never>()
+    Test.checks([
+      Test.check<typeof serialized, Expectation, Test.Pass>(),
+      Test.check<typeof value, { inner: SerializedError; list: SerializedError[] }, Test.Pass>(),
+      Test.check<typeof error, [SerializedError, string], Test.Pass>(),
+    ])
+  });
+});
+
+(function describe(_ = 'Standard Schema') {
+  (function it(_ = 'infers the output type of the schema') {
+    const schema = input<StandardSchemaV1<string, number>>()
+
+    const result = Result.fromSchema(schema, '1')
+    const asyncResult = ResultAsync.fromSchema(schema, '1')
+    Test.checks([
+      Test.check<typeof result, Result<number, SchemaError>, Test.Pass>(),
+      Test.check<typeof asyncResult, ResultAsync<number, SchemaError>, Test.Pass>(),
+    ])
+  });
+});
+
+(function describe(_ = 'ResultAsync.retry') {
+  (function it(_ = 'fails with the error type of the operation') {
+    const result = ResultAsync.retry(() => input<ResultAsync<number, 'timeout'>>(), {
+      attempts: 3,
+      retryIf: (e) => e === 'timeout',
+    })
+    Test.checks([
+      Test.check<typeof result, ResultAsync<number, 'timeout'>, Test.Pass>(),
+    ])
+  });
+
+  (function it(_ = 'fails with the errors of all attempts when collecting them') {
+    const result = ResultAsync.retry(() => input<ResultAsync<number, 'timeout'>>(), {
+      attempts: 3,
+      collectErrors: true,
+    })
+    Test.checks([
+      Test.check<typeof result, ResultAsync<number, 'timeout'[]>, Test.Pass>(),
+    ])
+  });
+});
+
+(function describe(_ = 'Timeouts') {
+  (function it(_ = 'adds a TimeoutError to the error type') {
+    const result = input<ResultAsync<number, string>>().timeout(100)
+    Test.checks([
+      Test.check<typeof result, ResultAsync<number, string | TimeoutError>, Test.Pass>(),
+    ])
+  });
+
+  (function it(_ = 'adds the error created by onTimeout to the error type') {
+    const result = input<ResultAsync<number, string>>().timeout(100, () => 42 as const)
+    const withOptions = input<ResultAsync<number, string>>().timeout(100, { onTimeout: () => false })
+    Test.checks([
+      Test.check<typeof result, ResultAsync<number, string | 42>, Test.Pass>(),
+      Test.check<typeof withOptions, ResultAsync<number, string | boolean>, Test.Pass>(),
+    ])
+  });
+
+  (function it(_ = 'adds a TimeoutError to fromPromise only when timeoutMs is set') {
+    const withTimeout = ResultAsync.fromPromise(input<Promise<number>>(), () => 'oops', { timeoutMs: 100 })
+    const withoutTimeout = ResultAsync.fromPromise(input<Promise<number>>(), () => 'oops', {})
+    Test.checks([
+      Test.check<typeof withTimeout, ResultAsync<number, string | TimeoutError>, Test.Pass>(),
+      Test.check<typeof withoutTimeout, ResultAsync<number, string>, Test.Pass>(),
+    ])
+  });
+
+  (function it(_ = 'adds a TimeoutError to fromPromise when timeoutMs may be set') {
+    class NotFoundError extends TaggedError('NotFoundError') {}
+    const options: FromPromiseOptions = { timeoutMs: 10 }
+    const fromVariable = ResultAsync.fromPromise(input<Promise<number>>(), () => 'oops', options)
+    const maybeTimeout = ResultAsync.fromPromise(input<Promise<number>>(), () => 'oops', {
+      timeoutMs: input<number | undefined>(),
+    })
+    const withCatch = ResultAsync.fromPromise(input<Promise<number>>(), {
+      catch: [NotFoundError],
+      timeoutMs: input<number | undefined>(),
+    })
+    Test.checks([
+      Test.check<typeof fromVariable, ResultAsync<number, string | TimeoutError | AbortedError>, Test.Pass>(),
+      Test.check<typeof maybeTimeout, ResultAsync<number, string | TimeoutError>, Test.Pass>(),
+      Test.check<typeof withCatch, ResultAsync<number, NotFoundError | TimeoutError>, Test.Pass>(),
+    ])
+  });
+});
+
+(function describe(_ = 'Cancellation') {
+  (function it(_ = 'adds an AbortedError to fromAbortable') {
+    const result = ResultAsync.fromAbortable((_signal) => input<Promise<number>>(), () => 'oops', input<AbortSignal>())
+    Test.checks([
+      Test.check<typeof result, ResultAsync<number, string | AbortedError>, Test.Pass>(),
+    ])
+  });
+
+  (function it(_ = 'adds an AbortedError to fromPromise only when a signal is set') {
+    const withSignal = ResultAsync.fromPromise(input<Promise<number>>(), () => 'oops', { signal: input<AbortSignal>() })
+    const withBoth = ResultAsync.fromPromise(input<Promise<number>>(), () => 'oops', { signal: input<AbortSignal>(), timeoutMs: 100 })
+    Test.checks([
+      Test.check<typeof withSignal, ResultAsync<number, string | AbortedError>, Test.Pass>(),
+      Test.check<typeof withBoth, ResultAsync<number, string | TimeoutError | AbortedError>, Test.Pass>(),
+    ])
+  });
+
+  (function it(_ = 'adds an AbortedError to fromPromise when a signal may be set') {
+    const maybeSignal = ResultAsync.fromPromise(input<Promise<number>>(), () => 'oops', {
+      signal: input<AbortSignal | undefined>(),
+    })
+    Test.checks([
+      Test.check<typeof maybeSignal, ResultAsync<number, string | AbortedError>, Test.Pass>(),
+    ])
+  });
+
+  (function it(_ = 'does not take a signal in the constructor') {
+    // @ts-expect-error -- the error type would not have the AbortedError
+    new ResultAsync(input<Promise<Result<number, string>>>(), input<AbortSignal>())
+  });
+});
+
+(function describe(_ = 'ResultAsync.traverse') {
+  (function it(_ = 'combines the values and errors of the mapped items') {
+    const result = ResultAsync.traverse(input<string[]>(), (_item) => input<ResultAsync<number, Error>>())
+    const withAllErrors = ResultAsync.traverseWithAllErrors(input<string[]>(), (_item) => input<ResultAsync<number, Error>>(), { concurrency: 4 })
+    Test.checks([
+      Test.check<typeof result, ResultAsync<number[], Error>, Test.Pass>(),
+      Test.check<typeof withAllErrors, ResultAsync<number[], Error[]>, Test.Pass>(),
+    ])
+  });
+
+  (function it(_ = 'traverses any iterable sequentially') {
+    const sync = Result.traverse(input<Set<string>>(), (_item) => input<Result<number, Error>>())
+    const fromMap = Result.traverse(input<Map<string, boolean>>(), ([key, _value]) => ok<string, Error>(key))
+    const seq = ResultAsync.traverseSeq(input<AsyncIterable<string>>(), (_item) => input<ResultAsync<number, Error>>())
+    Test.checks([
+      Test.check<typeof sync, Result<number[], Error>, Test.Pass>(),
+      Test.check<typeof fromMap, Result<string[], Error>, Test.Pass>(),
+      Test.check<typeof seq, ResultAsync<number[], Error>, Test.Pass>(),
+    ])
+  });
+});
+
+(function describe(_ = 'ResultAsync.any and ResultAsync.race') {
+  (function it(_ = 'types the errors of any per position') {
+    const result = ResultAsync.any([
+      input<ResultAsync<number, 'a'>>(),
+      input<ResultAsync<string, 'b'>>(),
+    ])
+    Test.checks([
+      Test.check<typeof result, ResultAsync<number | string, ['a', 'b']>, Test.Pass>(),
+    ])
+  });
+
+  (function it(_ = 'types the errors of any as a list for arrays') {
+    const result = ResultAsync.any(input<ResultAsync<number, Error>[]>())
+    Test.checks([
+      Test.check<typeof result, ResultAsync<number, Error[]>, Test.Pass>(),
+    ])
+  });
+
+  (function it(_ = 'combines the values and errors of race into unions') {
+    const result = ResultAsync.race([
+      input<ResultAsync<number, 'a'>>(),
+      input<ResultAsync<string, 'b'>>(),
+    ])
+    Test.checks([
+      Test.check<typeof result, ResultAsync<number | string, 'a' | 'b'>, Test.Pass>(),
+    ])
+  });
+
+  (function it(_ = 'requires race to wait for at least one ResultAsync') {
+    const [first, ...rest] = input<ResultAsync<number, 'a'>[]>()
+    const result = ResultAsync.race([first, ...rest])
+
+    // @ts-expect-error -- an empty list would never settle
+    ResultAsync.race([])
+    // @ts-expect-error -- the array may be empty
+    ResultAsync.race(input<ResultAsync<number, 'a'>[]>())
+    Test.checks([
+      Test.check<typeof result, ResultAsync<number, 'a'>, Test.Pass>(),
+    ])
+  });
+});
+
+(function describe(_ = 'combineObject') {
+  (function it(_ = 'combines the values under their key') {
+    const result = Result.combineObject({
+      user: input<Result<string, 'a'>>(),
+      org: input<Result<number, 'b'>>(),
+    })
+    const withAllErrors = Result.combineObjectWithAllErrors({
+      user: input<Result<string, 'a'>>(),
+      org: input<Result<number, 'b'>>(),
+    })
+    Test.checks([
+      Test.check<typeof result, Result<{ user: string; org: number }, 'a' | 'b'>, Test.Pass>(),
+      Test.check<typeof withAllErrors, Result<{ user: string; org: number }, Partial<{ user: 'a'; org: 'b' }>>, Test.Pass>(),
+    ])
+  });
+
+  (function it(_ = 'combines the values of async results under their key') {
+    const result = ResultAsync.combineObject({
+      user: input<ResultAsync<string, 'a'>>(),
+      org: input<ResultAsync<number, 'b'>>(),
+    })
+    const withAllErrors = ResultAsync.combineObjectWithAllErrors({
+      user: input<ResultAsync<string, 'a'>>(),
+      org: input<ResultAsync<number, 'b'>>(),
+    })
+    Test.checks([
+      Test.check<typeof result, ResultAsync<{ user: string; org: number }, 'a' | 'b'>, Test.Pass>(),
+      Test.check<typeof withAllErrors, ResultAsync<{ user: string; org: number }, Partial<{ user: 'a'; org: 'b' }>>, Test.Pass>(),
+    ])
+  });
+});
+
+(function describe(_ = 'partition and settle') {
+  (function it(_ = 'splits the value types from the error types') {
+    const result = Result.partition(input<(Result<number, 'a'> | Result<string, 'b'>)[]>())
+    Test.checks([
+      Test.check<typeof result, [(number | string)[], ('a' | 'b')[]], Test.Pass>(),
+    ])
+  });
+
+  (function it(_ = 'settles with every result') {
+    const result = ResultAsync.settle(input<ResultAsync<number, 'a'>[]>())
+    Test.checks([
+      Test.check<typeof result, ResultAsync<SettledResult<number, 'a'>[], never>, Test.Pass>(),
+    ])
+  });
+});
+
+(function describe(_ = 'Indexed combine') {
+  (function it(_ = 'ties the type of each error to its index for tuples') {
+    const first = Result.combineIndexed([input<Result<number, 'a'>>(), input<Result<string, 'b'>>()])
+    const all = Result.combineWithAllErrorsIndexed([input<Result<number, 'a'>>(), input<Result<string, 'b'>>()])
+    Test.checks([
+      Test.check<typeof first, Result<[number, string], IndexedError<'a', 0> | IndexedError<'b', 1>>, Test.Pass>(),
+      Test.check<typeof all, Result<[number, string], (IndexedError<'a', 0> | IndexedError<'b', 1>)[]>, Test.Pass>(),
+    ])
+  });
+
+  (function it(_ = 'uses number indexes for arrays') {
+    const all = Result.combineWithAllErrorsIndexed(input<Result<number, 'a'>[]>())
+    Test.checks([
+      Test.check<typeof all, Result<number[], IndexedError<'a'>[]>, Test.Pass>(),
+    ])
+  });
+
+  (function it(_ = 'ties the type of each error to its index for async tuples') {
+    const first = ResultAsync.combineIndexed([input<ResultAsync<number, 'a'>>(), input<ResultAsync<string, 'b'>>()])
+    const all = ResultAsync.combineWithAllErrorsIndexed([input<ResultAsync<number, 'a'>>(), input<ResultAsync<string, 'b'>>()])
+    Test.checks([
+      Test.check<typeof first, ResultAsync<[number, string], IndexedError<'a', 0> | IndexedError<'b', 1>>, Test.Pass>(),
+      Test.check<typeof all, ResultAsync<[number, string], (IndexedError<'a', 0> | IndexedError<'b', 1>)[]>, Test.Pass>(),
+    ])
+  });
+});
+
+(function describe(_ = 'Decoder') {
+  (function it(_ = 'infers the type of decoded objects') {
+    const user = Decoder.object({
+      name: Decoder.string,
+      role: Decoder.union(Decoder.literal('admin'), Decoder.literal('user')),
+      tags: Decoder.array(Decoder.string),
+      nickname: Decoder.optional(Decoder.string),
+    })
+    const result = user.decode(input<unknown>())
+    Test.checks([
+      Test.check<typeof result, Result<{ name: string; role: 'admin' | 'user'; tags: string[]; nickname?: string | undefined }, DecodeError[]>, Test.Pass>(),
+    ])
+  });
+
+  (function it(_ = 'narrows with type guards passed to refine') {
+    const decoder = Decoder.string.refine((s): s is 'a' | 'b' => s === 'a' || s === 'b', 'oops')
+    const mapped = Decoder.number.map(String)
+    Test.checks([
+      Test.check<typeof decoder, Decoder<'a' | 'b'>, Test.Pass>(),
+      Test.check<typeof mapped, Decoder<string>, Test.Pass>(),
+    ])
+  });
+});
+
+(function describe(_ = 'Result.validate') {
+  (function it(_ = 'accumulates the error types into a non-empty array') {
+    const result = Result.validate(input<string>())
+      .check((_s) => input<Result<number, 'a'>>())
+      .andCheck((_s) => input<Result<boolean, 'b'>>())
+      .result()
+    Test.checks([
+      Test.check<typeof result, Result<string, NonEmptyArray<'a' | 'b'>>, Test.Pass>(),
+    ])
+  });
+
+  (function it(_ = 'cannot fail without checks') {
+    const result = Result.validate(input<string>()).result()
+    Test.checks([
+      Test.check<typeof result, Result<string, NonEmptyArray<never>>, Test.Pass>(),
+    ])
+  });
+});
+
+(function describe(_ = 'Selective catching') {
+  class NotFoundError extends TaggedError('NotFoundError') {}
+  class ValidationError extends TaggedError('ValidationError') {}
+
+  (function it(_ = 'infers the error type from the listed classes') {
+    const sync = Result.fromThrowable((_s: string) => 1, { catch: [NotFoundError, ValidationError] })
+    const async = ResultAsync.fromThrowable((_s: string) => Promise.resolve(1), { catch: [NotFoundError] })
+    const promise = ResultAsync.fromPromise(input<Promise<number>>(), { catch: [NotFoundError, ValidationError] })
+    Test.checks([
+      Test.check<typeof sync, (s: string) => Result<number, NotFoundError | ValidationError>, Test.Pass>(),
+      Test.check<typeof async, (s: string) => ResultAsync<number, NotFoundError>, Test.Pass>(),
+      Test.check<typeof promise, ResultAsync<number, NotFoundError | ValidationError>, Test.Pass>(),
+    ])
+  });
+
+  (function it(_ = 'infers the error type from a type guard') {
+    const isNotFound = (e: unknown): e is NotFoundError => e instanceof NotFoundError
+    const sync = Result.fromThrowable(() => 1, { catch: isNotFound })
+    const promise = ResultAsync.fromPromise(input<Promise<number>>(), { catch: isNotFound })
+    Test.checks([
+      Test.check<typeof sync, () => Result<number, NotFoundError>, Test.Pass>(),
+      Test.check<typeof promise, ResultAsync<number, NotFoundError>, Test.Pass>(),
+    ])
+  });
+
+  (function it(_ = 'adds the errors of the other options of fromPromise') {
+    const promise = ResultAsync.fromPromise(input<Promise<number>>(), { catch: [NotFoundError], timeoutMs: 100 })
+    Test.checks([
+      Test.check<typeof promise, ResultAsync<number, NotFoundError | TimeoutError>, Test.Pass>(),
+    ])
+  });
+});
+
+(function describe(_ = 'matchDefect') {
+  (function it(_ = 'Returns the union of the three callbacks') {
+    const result = okAsync<number, string>(1).matchDefect(
+      (n) => n,
+      (e) => e.length > 0,
+      (defect) => defect,
+    )
+
+    type Expectation = Promise<number | boolean | Defect>
+
+    Test.checks([
+      Test.check<typeof result, Expectation, Test.Pass>(),
+    ])
+  });
+
+  (function it(_ = 'Takes an optional defect callback in match and matchTag') {
+    class NotFound extends TaggedError('NotFound') {}
+    const matched = okAsync<number, string>(1).match(
+      (n) => n,
+      (e) => e.length > 0,
+      (defect) => defect,
+    )
+    const unhandled = okAsync<number, string>(1).match((n) => n, (e) => e)
+    const matchedTag = okAsync<number, NotFound>(1).matchTag(
+      (n) => n,
+      { NotFound: () => 'missing' as const },
+      () => null,
+    )
+
+    Test.checks([
+      Test.check<typeof matched, Promise<number | boolean | Defect>, Test.Pass>(),
+      Test.check<typeof unhandled, Promise<number | string>, Test.Pass>(),
+      Test.check<typeof matchedTag, Promise<number | 'missing' | null>, Test.Pass>(),
+    ])
+  });
+});
+
+(function describe(_ = 'Cross-realm guards') {
+  (function it(_ = 'Narrows a Result to its Ok variant') {
+    const result = ok<number, string>(1) as Result<number, string>
+
+    if (Result.isOk(result)) {
+      type Expectation = Ok<number, string>
+
+      Test.checks([
+        Test.check<typeof result, Expectation, Test.Pass>(),
+      ])
+    }
+  });
+
+  (function it(_ = 'Narrows an unknown value to a ResultAsync') {
+    const value: unknown = okAsync(1)
+
+    if (ResultAsync.isResultAsync(value)) {
+      type Expectation = ResultAsync<unknown, unknown>
+
+      Test.checks([
+        Test.check<typeof value, Expectation, Test.Pass>(),
+      ])
+    }
+  });
+});
+
+(function describe(_ = 'equals') {
+  (function it(_ = 'Infers the types of the custom equalities') {
+    Result.equals(ok<{ id: number }, string>({ id: 1 }), err('oops'), {
+      value: (a, b) => {
+        type Expectation = { id: number }
+
+        Test.checks([
+          Test.check<typeof a, Expectation, Test.Pass>(),
+          Test.check<typeof b, Expectation, Test.Pass>(),
+        ])
+        return a.id === b.id
+      },
+      error: (a) => {
+        Test.checks([
+          Test.check<typeof a, string, Test.Pass>(),
+        ])
+        return true
+      },
+    })
+  });
+});
+
+(function describe(_ = 'Collect helpers') {
+  (function it(_ = 'Collects the values and the errors of mixed Results') {
+    const results = [ok<number, string>(1), err<boolean, Error>(new Error())]
+
+    const values = Result.collectOks(results)
+    const errors = Result.collectErrs(results)
+    const found = Result.findOk(results)
+
+    Test.checks([
+      Test.check<typeof values, (number | boolean)[], Test.Pass>(),
+      Test.check<typeof errors, (string | Error)[], Test.Pass>(),
+      Test.check<typeof found, Option<number | boolean>, Test.Pass>(),
+    ])
+  });
+
+  (function it(_ = 'Collects the values of ResultAsyncs') {
+    const values = ResultAsync.collectOks([okAsync<number, string>(1), okAsync<string, Error>('a')])
+    const found = ResultAsync.findOk([okAsync<number, string>(1)])
+
+    Test.checks([
+      Test.check<typeof values, ResultAsync<(number | string)[], never>, Test.Pass>(),
+      Test.check<typeof found, OptionAsync<number>, Test.Pass>(),
+    ])
+  });
+
+  (function it(_ = 'Infers the values kept by filterMap') {
+    const values = ResultAsync.filterMap([1, 2], (n) => (n > 1 ? okAsync(String(n)) : err(n)))
+
+    Test.checks([
+      Test.check<typeof values, ResultAsync<string[], never>, Test.Pass>(),
+    ])
+  });
+});
+
+(function describe(_ = 'try') {
+  (function it(_ = 'Returns a Result for synchronous functions') {
+    const result = Result.try(() => 1, (e) => String(e))
+
+    Test.checks([
+      Test.check<typeof result, Result<number, string>, Test.Pass>(),
+    ])
+  });
+
+  (function it(_ = 'Returns a ResultAsync for functions returning a promise') {
+    const result = Result.try(async () => 1)
+
+    Test.checks([
+      Test.check<typeof result, ResultAsync<number, unknown>, Test.Pass>(),
+    ])
+  });
+
+  (function it(_ = 'Returns either for functions returning a promise only sometimes') {
+    const result = Result.try(() => (Math.random() > 0.5 ? 1 : Promise.resolve('a')))
+    const parsed = Result.try(() => JSON.parse('1'))
+
+    Test.checks([
+      Test.check<typeof result, Result<1, unknown> | ResultAsync<string, unknown>, Test.Pass>(),
+      Test.check<typeof parsed, Result<any, unknown>, Test.Pass>(),
+    ])
+  });
+
+  (function it(_ = 'Unwraps the promise returned to ResultAsync.try') {
+    const result = ResultAsync.try(async () => 'a', () => new TimeoutError(1))
+
+    Test.checks([
+      Test.check<typeof result, ResultAsync<string, TimeoutError>, Test.Pass>(),
+    ])
+  });
+});
+
+(function describe(_ = 'fromAbortable error types') {
+  (function it(_ = 'Drops the AbortedError once mapErr and orElse replace the error type') {
+    const source = ResultAsync.fromAbortable(async () => 1, () => 'x', new AbortController().signal)
+    const recovered = source.orElse(() => ok(5)).map((n) => n + 1)
+    const mapped = source.mapErr(() => 'mapped' as const).map((n) => n + 1)
+
+    Test.checks([
+      Test.check<typeof source, ResultAsync<number, string | AbortedError>, Test.Pass>(),
+      Test.check<typeof recovered, ResultAsync<number, never>, Test.Pass>(),
+      Test.check<typeof mapped, ResultAsync<number, 'mapped'>, Test.Pass>(),
+    ])
+  });
+});
+
 (function describe(_ = 'Utility types') {
   (function describe(_ = 'safeTry') {
     (function describe(_ = 'sync generator') {
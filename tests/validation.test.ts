@@ -0,0 +1,67 @@
+import { err, ok, Result } from '../src'
+
+import { describe, expect, it, vitest } from 'vitest'
+
+interface Form {
+  email: string
+  age: number
+}
+
+const validateEmail = (form: Form) =>
+  form.email.includes('@') ? ok(form.email) : err('invalid email' as const)
+const validateAge = (form: Form) => (form.age >= 18 ? ok(form.age) : err('too young' as const))
+
+describe('Result.validate', () => {
+  it('Succeeds with the value when all the checks pass', () => {
+    const form = { email: 'ada@example.com', age: 36 }
+
+    const result = Result.validate(form).check(validateEmail).check(validateAge).result()
+
+    expect(result).toEqual(ok(form))
+  })
+
+  it('Accumulates the errors of all the failed checks in order', () => {
+    const form = { email: 'ada', age: 12 }
+
+    const result = Result.validate(form).check(validateEmail).check(validateAge).result()
+
+    expect(result).toEqual(err(['invalid email', 'too young']))
+  })
+
+  it('Runs the dependent checks only if the previous checks passed', () => {
+    const isTaken = vitest.fn(() => err('taken' as const))
+
+    const invalid = Result.validate({ email: 'ada', age: 36 })
+      .check(validateEmail)
+      .andCheck(isTaken)
+      .result()
+
+    expect(invalid).toEqual(err(['invalid email']))
+    expect(isTaken).not.toHaveBeenCalled()
+
+    const taken = Result.validate({ email: 'ada@example.com', age: 36 })
+      .check(validateEmail)
+      .andCheck(isTaken)
+      .result()
+
+    expect(taken).toEqual(err(['taken']))
+  })
+
+  it('Runs the independent checks after a failed check', () => {
+    const result = Result.validate({ email: 'ada', age: 36 })
+      .andCheck(validateEmail)
+      .check(validateAge)
+      .check(() => err('always'))
+      .result()
+
+    expect(result).toEqual(err(['invalid email', 'always']))
+  })
+
+  it('Does not change the validation a check is run on', () => {
+    const validation = Result.validate({ email: 'ada', age: 36 })
+
+    validation.check(validateEmail)
+
+    expect(validation.result()).toEqual(ok({ email: 'ada', age: 36 }))
+  })
+})